@@ -0,0 +1,78 @@
+import { QueryAbortedError } from "./errors";
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) {
+        throw new QueryAbortedError();
+    }
+}
+
+/**
+ * Rejects with `QueryAbortedError` as soon as the signal is aborted, the promise itself keeps running.
+ */
+export const abortable = <R>(promise: Promise<R>, signal?: AbortSignal, onAbort?: () => void): Promise<R> => {
+    if (!signal) {
+        return promise;
+    }
+    return new Promise<R>((resolve, reject) => {
+        const abort = () => {
+            reject(new QueryAbortedError());
+            onAbort?.();
+        };
+        if (signal.aborted) {
+            return abort();
+        }
+        signal.addEventListener('abort', abort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort));
+    });
+}
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+    let cancel = () => undefined as void;
+    return abortable(new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, ms);
+        cancel = () => clearTimeout(timer);
+    }), signal, () => cancel());
+}
+
+interface IRunning<R> {
+    promise: Promise<R>;
+    controller: AbortController;
+    waiters: number;
+}
+
+/**
+ * Task shared by concurrent callers, e.g. a chunk load. A caller stops waiting when its own
+ * signal is aborted, the task is aborted once every caller has stopped waiting.
+ */
+export class SharedTask<R> {
+    private running?: IRunning<R>;
+    private task: (signal: AbortSignal) => Promise<R>;
+    constructor(task: (signal: AbortSignal) => Promise<R>) {
+        this.task = task;
+    }
+    run(signal?: AbortSignal): Promise<R> {
+        if (signal?.aborted) {
+            return Promise.reject(new QueryAbortedError());
+        }
+        if (!this.running) {
+            const controller = new AbortController();
+            const running: IRunning<R> = { controller, waiters: 0, promise: this.task(controller.signal) };
+            running.promise = running.promise.finally(() => {
+                if (this.running === running) {
+                    this.running = undefined;
+                }
+            });
+            this.running = running;
+        }
+        const running = this.running;
+        running.waiters++;
+        return abortable(running.promise, signal, () => {
+            if (--running.waiters === 0) {
+                running.controller.abort();
+                if (this.running === running) {
+                    this.running = undefined;
+                }
+            }
+        });
+    }
+}
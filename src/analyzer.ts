@@ -0,0 +1,100 @@
+import Snowball from "snowball";
+
+export interface IAnalyzerOptions extends Record<string, unknown> {
+    name?: string;
+    normalizer?: 'none' | 'lowercase' | 'fold';
+    tokenizer?: 'whitespace' | 'word';
+    stopwords?: string | string[];
+    stemmer?: string;
+    synonyms?: string[][];
+}
+
+const STOPWORDS: Record<string, string[]> = {
+    english: [
+        'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in', 'into', 'is', 'it',
+        'no', 'not', 'of', 'on', 'or', 'such', 'that', 'the', 'their', 'then', 'there', 'these',
+        'they', 'this', 'to', 'was', 'will', 'with',
+    ],
+    russian: [
+        'и', 'в', 'во', 'не', 'что', 'он', 'на', 'я', 'с', 'со', 'как', 'а', 'то', 'все', 'она', 'так',
+        'его', 'но', 'да', 'ты', 'к', 'у', 'же', 'вы', 'за', 'бы', 'по', 'только', 'ее', 'мне', 'было',
+        'вот', 'от', 'меня', 'еще', 'нет', 'о', 'из', 'ему', 'для', 'или', 'ни', 'ли', 'до',
+    ],
+};
+
+const analyzers: Map<string, IAnalyzerOptions> = new Map([
+    ['standard', { normalizer: 'lowercase', tokenizer: 'word' }],
+    ['english', { normalizer: 'lowercase', tokenizer: 'word', stopwords: 'english', stemmer: 'english' }],
+    ['russian', { normalizer: 'lowercase', tokenizer: 'word', stopwords: 'russian', stemmer: 'russian' }],
+]);
+
+export const registerAnalyzer = (name: string, options: IAnalyzerOptions): void => {
+    analyzers.set(name, { ...options, name });
+};
+
+export const resolveAnalyzer = (analyzer: string | IAnalyzerOptions): IAnalyzerOptions => {
+    if (typeof analyzer !== 'string') {
+        return analyzer;
+    }
+    const options = analyzers.get(analyzer);
+    if (!options) {
+        throw new Error(`analyzer ${analyzer} doesn't registered`);
+    }
+    return { ...options, name: analyzer };
+};
+
+export class Analyzer {
+    public options: IAnalyzerOptions;
+    private stopwords: Set<string>;
+    private synonyms: Map<string, string[]> = new Map();
+    private stemmer?: { setCurrent(word: string): void; stem(): boolean; getCurrent(): string };
+    constructor(analyzer: string | IAnalyzerOptions) {
+        this.options = resolveAnalyzer(analyzer);
+        const { stopwords = [], stemmer, synonyms = [] } = this.options;
+        this.stopwords = new Set(typeof stopwords === 'string' ? STOPWORDS[stopwords] || [] : stopwords);
+        synonyms.forEach((group) => {
+            const words = group.map((word) => this.normalize(word));
+            words.forEach((word) => {
+                const exists = this.synonyms.get(word) || [];
+                this.synonyms.set(word, [...new Set([...exists, ...words])]);
+            });
+        });
+        if (stemmer) {
+            this.stemmer = new Snowball(stemmer);
+        }
+    }
+    normalize(value: string): string {
+        switch (this.options.normalizer) {
+            case 'none':
+                return value;
+            case 'fold':
+                return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+            case 'lowercase':
+            default:
+                return value.toLowerCase();
+        }
+    }
+    tokenize(value: string): string[] {
+        switch (this.options.tokenizer) {
+            case 'whitespace':
+                return value.split(/\s+/).filter((word) => !!word);
+            case 'word':
+            default:
+                return value.split(/[^\p{L}\p{N}]+/u).filter((word) => !!word);
+        }
+    }
+    stem(word: string): string {
+        if (!this.stemmer) {
+            return word;
+        }
+        this.stemmer.setCurrent(word);
+        this.stemmer.stem();
+        return this.stemmer.getCurrent();
+    }
+    analyze(value: string): string[] {
+        return this.tokenize(this.normalize(value))
+            .filter((word) => !this.stopwords.has(word))
+            .flatMap((word) => this.synonyms.get(word) || [word])
+            .map((word) => this.stem(word));
+    }
+}
@@ -0,0 +1,156 @@
+import { ISharedIndice, ISpreadIndice } from "./interfaces";
+
+export interface ICacheOptions {
+    maxEntries: number;
+    maxBytes: number;
+}
+export interface ICacheStats {
+    hits: number;
+    misses: number;
+    evictions: number;
+    entries: number;
+    bytes: number;
+}
+type IChunk = Pick<ISpreadIndice<unknown, unknown>, 'id' | 'options' | 'unload'>;
+
+/**
+ * Rough size of the parsed chunk data in bytes.
+ */
+export const sizeOf = (value: unknown): number => {
+    if (typeof value === 'string') {
+        return 2 * value.length;
+    } else if (Array.isArray(value)) {
+        return value.reduce((sum, item) => sum + sizeOf(item), 8);
+    } else if (value && typeof value === 'object') {
+        return Object.entries(value).reduce((sum, [key, item]) => sum + 2 * key.length + sizeOf(item), 8);
+    }
+    return 8;
+}
+
+/**
+ * LRU of the chunks loaded by spread indices. Evicted chunks drop their data and reset
+ * `isLoaded`, so the next query loads them again. Chunks without `load` are never tracked.
+ */
+export class ChunkCache {
+    private entries: Map<IChunk, number> = new Map();
+    private pinnedChunks: Set<IChunk> = new Set();
+    private pinnedIndices: Map<ISharedIndice<unknown, unknown>, Set<IChunk>> = new Map();
+    private held: Map<IChunk, number> = new Map();
+    private counters = { hits: 0, misses: 0, evictions: 0 };
+    private bytes = 0;
+    public options: ICacheOptions;
+    constructor({ maxEntries = Infinity, maxBytes = Infinity }: Partial<ICacheOptions> = {}) {
+        this.options = { maxEntries, maxBytes };
+    }
+    configure(options: Partial<ICacheOptions>): this {
+        this.options = { ...this.options, ...options };
+        this.evict();
+        return this;
+    }
+    get stats(): ICacheStats {
+        return { ...this.counters, entries: this.entries.size, bytes: this.bytes };
+    }
+    hit(chunk: IChunk) {
+        const bytes = this.entries.get(chunk);
+        if (bytes !== undefined) {
+            this.counters.hits++;
+            this.entries.delete(chunk);
+            this.entries.set(chunk, bytes);
+        }
+    }
+    add(chunk: IChunk, bytes: number) {
+        const previous = this.entries.get(chunk);
+        if (previous === undefined) {
+            this.counters.misses++;
+            this.pinnedIndices.forEach((chunks, indice) => {
+                if (!chunks.has(chunk) && [...indice.indices.values()].includes(chunk as ISpreadIndice<unknown, unknown>)) {
+                    chunks.add(chunk);
+                    this.hold(chunk);
+                }
+            });
+        }
+        this.entries.delete(chunk);
+        this.entries.set(chunk, (previous || 0) + bytes);
+        this.bytes += bytes;
+        this.evict(chunk);
+    }
+    /**
+     * Pins a chunk or every chunk of a shared indice, e.g. the primary one. A pin holds the chunk
+     * like `acquire`, the chunks of a pinned indice loaded later are held when they are added.
+     */
+    pin(indice: IChunk | ISharedIndice<any, any>): this {
+        if ('testIndice' in indice) {
+            if (!this.pinnedIndices.has(indice)) {
+                const chunks = new Set<IChunk>(indice.indices.values());
+                this.pinnedIndices.set(indice, chunks);
+                chunks.forEach((chunk) => this.hold(chunk));
+            }
+        } else if (!this.pinnedChunks.has(indice)) {
+            this.pinnedChunks.add(indice);
+            this.hold(indice);
+        }
+        return this;
+    }
+    unpin(indice: IChunk | ISharedIndice<any, any>): this {
+        if ('testIndice' in indice) {
+            this.pinnedIndices.get(indice)?.forEach((chunk) => this.free(chunk));
+            this.pinnedIndices.delete(indice);
+        } else if (this.pinnedChunks.delete(indice)) {
+            this.free(indice);
+        }
+        this.evict();
+        return this;
+    }
+    /**
+     * Holds a chunk from its load until the query has read it: a query loading several chunks
+     * at once must not evict the ones it hasn't read yet. Held chunks may exceed the budget.
+     */
+    acquire(chunk: IChunk): this {
+        this.hold(chunk);
+        return this;
+    }
+    release(chunk: IChunk): this {
+        if (!this.free(chunk)) {
+            this.evict();
+        }
+        return this;
+    }
+    private hold(chunk: IChunk) {
+        this.held.set(chunk, (this.held.get(chunk) || 0) + 1);
+    }
+    /**
+     * Drops one hold, returns whether the chunk is still held.
+     */
+    private free(chunk: IChunk): boolean {
+        const count = (this.held.get(chunk) || 0) - 1;
+        if (count > 0) {
+            this.held.set(chunk, count);
+            return true;
+        }
+        this.held.delete(chunk);
+        return false;
+    }
+    private delete(chunk: IChunk) {
+        this.bytes -= this.entries.get(chunk) || 0;
+        this.entries.delete(chunk);
+        chunk.unload?.();
+    }
+    private evict(current?: IChunk) {
+        const { maxEntries, maxBytes } = this.options;
+        for (const chunk of [...this.entries.keys()]) {
+            if (this.entries.size <= maxEntries && this.bytes <= maxBytes) {
+                return;
+            }
+            if (chunk !== current && !this.held.has(chunk)) {
+                this.delete(chunk);
+                this.counters.evictions++;
+            }
+        }
+    }
+    clear() {
+        [...this.entries.keys()].forEach((chunk) => this.delete(chunk));
+        this.counters = { hits: 0, misses: 0, evictions: 0 };
+    }
+}
+
+export const chunkCache = new ChunkCache();
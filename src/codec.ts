@@ -0,0 +1,205 @@
+export type IFormat = 'json' | 'binary';
+
+const MAGIC = [0x43, 0x44, 0x42, 0x01];
+const MAGIC_FIELDS = [0x43, 0x44, 0x42, 0x02];
+const STRING_KEY = 0;
+const NUMBER_KEY = 1;
+const INTEGER_FIELD = 0;
+const LIST_FIELD = 1;
+
+/**
+ * `[key, ids[]]` entry, optionally followed by integer or integer list fields, e.g. the term
+ * frequency and the document lengths of `NgramIndice` postings.
+ */
+export type IChunkEntry = [string | number, number[], ...(number | number[])[]];
+
+class Writer {
+    private buffer = new Uint8Array(1 << 12);
+    private length = 0;
+    private reserve(size: number) {
+        if (this.length + size > this.buffer.length) {
+            const buffer = new Uint8Array(Math.max(this.buffer.length * 2, this.length + size));
+            buffer.set(this.buffer.subarray(0, this.length));
+            this.buffer = buffer;
+        }
+    }
+    byte(value: number) {
+        this.reserve(1);
+        this.buffer[this.length++] = value;
+    }
+    bytes(value: Uint8Array) {
+        this.reserve(value.length);
+        this.buffer.set(value, this.length);
+        this.length += value.length;
+    }
+    varint(value: number) {
+        while (value >= 0x80) {
+            this.byte((value % 0x80) | 0x80);
+            value = Math.floor(value / 0x80);
+        }
+        this.byte(value);
+    }
+    float(value: number) {
+        const view = new DataView(new ArrayBuffer(8));
+        view.setFloat64(0, value);
+        this.bytes(new Uint8Array(view.buffer));
+    }
+    result(): Uint8Array {
+        return this.buffer.slice(0, this.length);
+    }
+}
+
+class Reader {
+    private data: Uint8Array;
+    private position = 0;
+    constructor(data: Uint8Array) {
+        this.data = data;
+    }
+    byte(): number {
+        if (this.position >= this.data.length) {
+            throw (Error("unexpected end of binary chunk"))
+        }
+        return this.data[this.position++];
+    }
+    bytes(length: number): Uint8Array {
+        const value = this.data.subarray(this.position, this.position + length);
+        this.position += length;
+        return value;
+    }
+    varint(): number {
+        let value = 0;
+        let multiplier = 1;
+        for (; ;) {
+            const byte = this.byte();
+            value += (byte & 0x7f) * multiplier;
+            if (byte < 0x80) {
+                return value;
+            }
+            multiplier *= 0x80;
+        }
+    }
+    float(): number {
+        const bytes = this.bytes(8);
+        return new DataView(bytes.buffer, bytes.byteOffset, 8).getFloat64(0);
+    }
+}
+
+const zigzag = (value: number) => value >= 0 ? value * 2 : -value * 2 - 1;
+const unzigzag = (value: number) => value % 2 ? -(value + 1) / 2 : value / 2;
+
+const sharedPrefix = (a: Uint8Array, b: Uint8Array): number => {
+    let i = 0;
+    while (i < a.length && i < b.length && a[i] === b[i]) {
+        i++;
+    }
+    return i;
+}
+
+const isIntegers = (value: unknown): boolean => Array.isArray(value) && value.every((id: unknown) => Number.isSafeInteger(id));
+
+export const isBinaryCompatible = (data: unknown[]): boolean => {
+    return data.every((entry) => Array.isArray(entry)
+        && entry.length >= 2
+        && (typeof entry[0] === 'string' || typeof entry[0] === 'number')
+        && isIntegers(entry[1])
+        && entry.slice(2).every((field) => Number.isSafeInteger(field) || isIntegers(field)));
+}
+
+/**
+ * Posting lists chunk: keys are front coded against the previous key, ids are
+ * zigzag deltas written as varints, so the original order of the ids is kept.
+ * Chunks with extra fields get their own header, chunks without them are written as before.
+ */
+export const encodeChunk = (data: IChunkEntry[]): Uint8Array => {
+    if (!isBinaryCompatible(data)) {
+        throw (Error("binary format supports only [key, integer ids[], ...integer fields] chunks"))
+    }
+    const hasFields = data.some((entry) => entry.length > 2);
+    const encoder = new TextEncoder();
+    const writer = new Writer();
+    writer.bytes(new Uint8Array(hasFields ? MAGIC_FIELDS : MAGIC));
+    writer.varint(data.length);
+    let previous = new Uint8Array(0);
+    data.forEach(([key, ids, ...fields]) => {
+        if (typeof key === 'number') {
+            writer.byte(NUMBER_KEY);
+            writer.float(key);
+        } else {
+            const bytes = encoder.encode(key);
+            const prefix = sharedPrefix(previous, bytes);
+            writer.byte(STRING_KEY);
+            writer.varint(prefix);
+            writer.varint(bytes.length - prefix);
+            writer.bytes(bytes.subarray(prefix));
+            previous = bytes;
+        }
+        writer.varint(ids.length);
+        let last = 0;
+        ids.forEach((id) => {
+            writer.varint(zigzag(id - last));
+            last = id;
+        });
+        if (hasFields) {
+            writer.varint(fields.length);
+            fields.forEach((field) => {
+                const values = Array.isArray(field) ? field : [field];
+                writer.byte(Array.isArray(field) ? LIST_FIELD : INTEGER_FIELD);
+                if (Array.isArray(field)) {
+                    writer.varint(field.length);
+                }
+                values.forEach((value) => writer.varint(zigzag(value)));
+            });
+        }
+    });
+    return writer.result();
+}
+
+const hasHeader = (data: Uint8Array, header: number[]) => header.every((byte, i) => data[i] === byte);
+
+export const isBinaryChunk = (data: Uint8Array): boolean => hasHeader(data, MAGIC) || hasHeader(data, MAGIC_FIELDS);
+
+export const decodeChunk = (data: Uint8Array): IChunkEntry[] => {
+    if (!isBinaryChunk(data)) {
+        throw (Error("invalid binary chunk header"))
+    }
+    const hasFields = hasHeader(data, MAGIC_FIELDS);
+    const decoder = new TextDecoder();
+    const reader = new Reader(data.subarray(MAGIC.length));
+    const count = reader.varint();
+    const result: IChunkEntry[] = [];
+    let previous = new Uint8Array(0);
+    for (let i = 0; i < count; i++) {
+        let key: string | number;
+        if (reader.byte() === NUMBER_KEY) {
+            key = reader.float();
+        } else {
+            const prefix = reader.varint();
+            const suffix = reader.bytes(reader.varint());
+            const bytes = new Uint8Array(prefix + suffix.length);
+            bytes.set(previous.subarray(0, prefix));
+            bytes.set(suffix, prefix);
+            key = decoder.decode(bytes);
+            previous = bytes;
+        }
+        const ids: number[] = new Array(reader.varint());
+        let last = 0;
+        for (let j = 0; j < ids.length; j++) {
+            last += unzigzag(reader.varint());
+            ids[j] = last;
+        }
+        const fields: (number | number[])[] = new Array(hasFields ? reader.varint() : 0);
+        for (let j = 0; j < fields.length; j++) {
+            if (reader.byte() === LIST_FIELD) {
+                const values: number[] = new Array(reader.varint());
+                for (let k = 0; k < values.length; k++) {
+                    values[k] = unzigzag(reader.varint());
+                }
+                fields[j] = values;
+            } else {
+                fields[j] = unzigzag(reader.varint());
+            }
+        }
+        result.push([key, ids, ...fields]);
+    }
+    return result;
+}
@@ -0,0 +1,110 @@
+import { IFindOptions } from "./interfaces";
+import { SimpleIndice } from "./simple.indice";
+import { chunkCache, sizeOf } from "./cache";
+import { chunkLimiter } from "./limiter";
+import { SharedTask } from "./abort";
+const DEFAULT_GROUP = 'default';
+interface IOptions extends Record<string, unknown> {
+    id?: string;
+    groups: Record<string, string[]>;
+    isLoaded: boolean;
+    load?(options: IOptions & { group: string, signal?: AbortSignal }): Promise<never>;
+}
+
+/**
+ * Primary indice with column-split chunks: every group of fields is stored in its own
+ * chunk file, fields outside of the groups go to the `default` group.
+ */
+export class ColumnIndice<T, P> extends SimpleIndice<T, P> {
+    declare public options: IOptions;
+    private loaded: Set<string> = new Set();
+    private loadingGroups: Map<string, SharedTask<void>> = new Map();
+    constructor({ groups = {}, ...options }: Partial<IOptions> = {}) {
+        super(options);
+        this.options = { ...this.options, groups };
+    }
+    private get groupNames(): string[] {
+        return [...Object.keys(this.options.groups), DEFAULT_GROUP];
+    }
+    private groupOf(field: string): string {
+        const { groups } = this.options;
+        return Object.keys(groups).find((name) => groups[name].includes(field.split('.')[0])) || DEFAULT_GROUP;
+    }
+    private pick(value: T, group: string): Record<string, unknown> {
+        return Object.fromEntries(Object.entries(value as Record<string, unknown>)
+            .filter(([field]) => this.groupOf(field) === group));
+    }
+    serializeGroups(): [string, unknown[]][] {
+        return this.groupNames.map((group) => [
+            group,
+            [...this.indices].map(([key, values]) => [key, values.map((value) => this.pick(value, group))])
+        ]);
+    }
+    public unload() {
+        if (this.options.load) {
+            this.indices = new Map();
+            this.loaded.clear();
+            this.options.isLoaded = false;
+        }
+    }
+    public async load(signal?: AbortSignal) {
+        await this.loadGroups(undefined, signal);
+    }
+    private async loadGroups(fields?: string[], signal?: AbortSignal) {
+        if (this.options.isLoaded) {
+            chunkCache.hit(this);
+            return;
+        } else if (this.options.load) {
+            const groups = (fields ? [...new Set(fields.map((field) => this.groupOf(field)))] : this.groupNames)
+                .filter((group) => !this.loaded.has(group));
+            if (!groups.length) {
+                chunkCache.hit(this);
+            }
+            await Promise.all(groups.map((group) => this.loadGroup(group, signal)));
+        } else {
+            throw (Error("option load doesn't implemented"))
+        }
+    }
+    private loadGroup(group: string, signal?: AbortSignal): Promise<void> {
+        let loading = this.loadingGroups.get(group);
+        if (!loading) {
+            loading = new SharedTask((signal) => this.fetchGroup(group, signal));
+            this.loadingGroups.set(group, loading);
+        }
+        return loading.run(signal);
+    }
+    private async fetchGroup(group: string, signal: AbortSignal) {
+        const load = this.options.load!;
+        const { data }: { data: [P, Record<string, unknown>[]][] } = await chunkLimiter.run(() => load({ ...this.options, group, signal }), signal);
+        data.forEach(([key, values]) => {
+            const documents = this.indices.get(key) || [];
+            values.forEach((value, i) => {
+                documents[i] = { ...documents[i], ...value } as T;
+            });
+            this.indices.set(key, documents);
+        });
+        this.loaded.add(group);
+        this.options.isLoaded = this.groupNames.every((group) => this.loaded.has(group));
+        chunkCache.add(this, sizeOf(data));
+    }
+    public async preFilter(tokens: P[], options: Partial<IFindOptions> = {}): Promise<Map<T, number>> {
+        chunkCache.acquire(this);
+        try {
+            await this.loadGroups(options.fields, options.signal);
+            return this.select(tokens, options);
+        } finally {
+            chunkCache.release(this);
+        }
+    }
+    static deserialize<T, P>(data: any, options?: any): ColumnIndice<T, P> {
+        if (!options) {
+            options = data;
+            data = null;
+        }
+        const index = new ColumnIndice<T, P>(options);
+        if (!!data) {
+            index.indices = data instanceof Map ? data : new Map(data);
+        }
+        return index;
+    }
+}
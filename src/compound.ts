@@ -0,0 +1,98 @@
+import { RawObject, resolve } from "mingo/util";
+import { IKeyRange } from "./interfaces";
+import { SimpleIndice } from "./simple.indice";
+
+const SEPARATOR = '\u0000';
+const NEXT_SEPARATOR = '\u0001';
+
+const encodeNumber = (value: number): string => {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value);
+    let high = view.getUint32(0);
+    let low = view.getUint32(4);
+    if (high >>> 31) {
+        high = ~high >>> 0;
+        low = ~low >>> 0;
+    } else {
+        high = (high | 0x80000000) >>> 0;
+    }
+    return high.toString(16).padStart(8, '0') + low.toString(16).padStart(8, '0');
+}
+
+const encodeValue = (value: unknown): string => {
+    if (value === null || value === undefined) {
+        return '0';
+    }
+    if (typeof value === 'number') {
+        return `1${encodeNumber(value)}`;
+    }
+    if (typeof value === 'boolean') {
+        return `3${value ? 1 : 0}`;
+    }
+    const str = typeof value === 'string' ? value : JSON.stringify(value);
+    return `2${str.replace(/\u0001/g, '\u0001\u0002').replace(/\u0000/g, '\u0001\u0001')}`;
+}
+
+export const encodeKey = (values: unknown[]): string => {
+    return values.map((value) => `${encodeValue(value)}${SEPARATOR}`).join('');
+}
+
+const after = (key: string): string => {
+    return key ? `${key.slice(0, -1)}${NEXT_SEPARATOR}` : '\uffff';
+}
+
+/**
+ * Range of the keys starting with `values`, a bound on the next value keeps the range to the keys of its type.
+ */
+export const keyRange = (values: unknown[], operators: Record<string, unknown> = {}): IKeyRange<string> => {
+    const prefix = encodeKey(values);
+    const range: IKeyRange<string> = { $gte: prefix, $lt: after(prefix) };
+    const { $gt, $gte, $lt, $lte } = operators;
+    const bound = [$gt, $gte, $lt, $lte].find((value) => value !== undefined);
+    if (bound !== undefined) {
+        const type = encodeValue(bound)[0];
+        range.$gte = `${prefix}${type}`;
+        range.$lt = `${prefix}${String.fromCharCode(type.charCodeAt(0) + 1)}`;
+    }
+    if ($gt !== undefined) {
+        range.$gte = after(encodeKey([...values, $gt]));
+    } else if ($gte !== undefined) {
+        range.$gte = encodeKey([...values, $gte]);
+    }
+    if ($lt !== undefined) {
+        range.$lt = encodeKey([...values, $lt]);
+    } else if ($lte !== undefined) {
+        range.$lt = after(encodeKey([...values, $lte]));
+    }
+    return range;
+}
+
+export interface ICompoundIndice<T> {
+    paths: string[];
+    indice: SimpleIndice<T, string>;
+    add(key: T, document: RawObject): void;
+}
+
+/**
+ * Every key of a document: an array at a path gives one key per element, as `SimpleIndice.add` does.
+ */
+const documentKeys = (document: RawObject, paths: string[]): string[] => {
+    const keys = paths.reduce<unknown[][]>((list, path) => {
+        const value = resolve(document, path);
+        const values = Array.isArray(value) ? [...new Set(value)] : [value];
+        return list.flatMap((prefix) => values.map((v) => [...prefix, v]));
+    }, [[]]);
+    return keys.map(encodeKey);
+}
+
+/**
+ * Builds the `SimpleIndice` of a compound indice, `add` keys a document by `encodeKey` of its values at `paths`.
+ */
+export const compoundIndice = <T>(paths: string[], options?: ConstructorParameters<typeof SimpleIndice>[0]): ICompoundIndice<T> => {
+    const indice = new SimpleIndice<T, string>(options);
+    return {
+        paths,
+        indice,
+        add: (key, document) => indice.add(key, documentKeys(document, paths)),
+    };
+}
@@ -0,0 +1,224 @@
+import { isBinaryChunk } from "./codec";
+
+export type IEncoding = 'gzip' | 'br';
+
+export const extensions: Record<IEncoding, string> = {
+    gzip: '.gz',
+    br: '.br',
+};
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+const MAX_BITS = 15;
+
+interface IHuffman {
+    counts: Uint16Array;
+    symbols: Uint16Array;
+}
+
+const huffman = (lengths: ArrayLike<number>): IHuffman => {
+    const counts = new Uint16Array(MAX_BITS + 1);
+    const symbols = new Uint16Array(lengths.length);
+    const offsets = new Uint16Array(MAX_BITS + 1);
+    for (let i = 0; i < lengths.length; i++) {
+        counts[lengths[i]]++;
+    }
+    counts[0] = 0;
+    for (let len = 1; len < MAX_BITS; len++) {
+        offsets[len + 1] = offsets[len] + counts[len];
+    }
+    for (let i = 0; i < lengths.length; i++) {
+        if (lengths[i]) {
+            symbols[offsets[lengths[i]]++] = i;
+        }
+    }
+    return { counts, symbols };
+}
+
+const fixedLengths = new Uint8Array(288).map((_, i) => i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8);
+const fixedLiterals = huffman(fixedLengths);
+const fixedDistances = huffman(new Uint8Array(30).fill(5));
+
+class Inflate {
+    private data: Uint8Array;
+    private position: number;
+    private buffer = 0;
+    private count = 0;
+    private output = new Uint8Array(1 << 16);
+    private length = 0;
+    constructor(data: Uint8Array, position = 0) {
+        this.data = data;
+        this.position = position;
+    }
+    private bits(n: number): number {
+        while (this.count < n) {
+            if (this.position >= this.data.length) {
+                throw (Error("unexpected end of deflate stream"))
+            }
+            this.buffer |= this.data[this.position++] << this.count;
+            this.count += 8;
+        }
+        const value = this.buffer & ((1 << n) - 1);
+        this.buffer >>>= n;
+        this.count -= n;
+        return value;
+    }
+    private decode({ counts, symbols }: IHuffman): number {
+        let code = 0;
+        let first = 0;
+        let index = 0;
+        for (let len = 1; len <= MAX_BITS; len++) {
+            code |= this.bits(1);
+            const count = counts[len];
+            if (code - count < first) {
+                return symbols[index + (code - first)];
+            }
+            index += count;
+            first = (first + count) << 1;
+            code <<= 1;
+        }
+        throw (Error("invalid huffman code"))
+    }
+    private push(byte: number) {
+        if (this.length === this.output.length) {
+            const output = new Uint8Array(this.output.length * 2);
+            output.set(this.output);
+            this.output = output;
+        }
+        this.output[this.length++] = byte;
+    }
+    private stored() {
+        this.buffer = 0;
+        this.count = 0;
+        const length = this.data[this.position] | (this.data[this.position + 1] << 8);
+        this.position += 4;
+        for (let i = 0; i < length; i++) {
+            this.push(this.data[this.position++]);
+        }
+    }
+    private dynamic(): [IHuffman, IHuffman] {
+        const literals = this.bits(5) + 257;
+        const distances = this.bits(5) + 1;
+        const codes = this.bits(4) + 4;
+        const codeLengths = new Uint8Array(19);
+        for (let i = 0; i < codes; i++) {
+            codeLengths[CODE_LENGTH_ORDER[i]] = this.bits(3);
+        }
+        const codeHuffman = huffman(codeLengths);
+        const lengths = new Uint8Array(literals + distances);
+        for (let i = 0; i < lengths.length;) {
+            const symbol = this.decode(codeHuffman);
+            if (symbol < 16) {
+                lengths[i++] = symbol;
+            } else {
+                const [value, repeat] = symbol === 16
+                    ? [lengths[i - 1], 3 + this.bits(2)]
+                    : symbol === 17 ? [0, 3 + this.bits(3)] : [0, 11 + this.bits(7)];
+                lengths.fill(value, i, i + repeat);
+                i += repeat;
+            }
+        }
+        return [huffman(lengths.subarray(0, literals)), huffman(lengths.subarray(literals))];
+    }
+    private codes(literals: IHuffman, distances: IHuffman) {
+        for (; ;) {
+            const symbol = this.decode(literals);
+            if (symbol < 256) {
+                this.push(symbol);
+            } else if (symbol === 256) {
+                return;
+            } else {
+                const length = LENGTH_BASE[symbol - 257] + this.bits(LENGTH_EXTRA[symbol - 257]);
+                const distanceSymbol = this.decode(distances);
+                const distance = DIST_BASE[distanceSymbol] + this.bits(DIST_EXTRA[distanceSymbol]);
+                for (let i = 0; i < length; i++) {
+                    this.push(this.output[this.length - distance]);
+                }
+            }
+        }
+    }
+    run(): Uint8Array {
+        let last = 0;
+        while (!last) {
+            last = this.bits(1);
+            const type = this.bits(2);
+            if (type === 0) {
+                this.stored();
+            } else if (type === 1) {
+                this.codes(fixedLiterals, fixedDistances);
+            } else if (type === 2) {
+                this.codes(...this.dynamic());
+            } else {
+                throw (Error("invalid deflate block type"))
+            }
+        }
+        return this.output.subarray(0, this.length);
+    }
+}
+
+/**
+ * Pure JS gzip decoder, used where `DecompressionStream` is not available.
+ */
+export const gunzip = (data: Uint8Array): Uint8Array => {
+    if (data[0] !== 0x1f || data[1] !== 0x8b || data[2] !== 8) {
+        throw (Error("invalid gzip header"))
+    }
+    const flags = data[3];
+    let position = 10;
+    if (flags & 4) {
+        position += 2 + (data[position] | (data[position + 1] << 8));
+    }
+    for (const flag of [8, 16]) {
+        if (flags & flag) {
+            while (data[position++]);
+        }
+    }
+    if (flags & 2) {
+        position += 2;
+    }
+    return new Inflate(data, position).run();
+}
+
+const stream = async (data: Uint8Array, encoding: IEncoding): Promise<Uint8Array | undefined> => {
+    const DecompressionStream = (globalThis as any).DecompressionStream;
+    if (!DecompressionStream || typeof Response === 'undefined') {
+        return undefined;
+    }
+    try {
+        const decompressed = new Blob([data]).stream().pipeThrough<Uint8Array>(new DecompressionStream(encoding));
+        return new Uint8Array(await new Response(decompressed).arrayBuffer());
+    } catch (e) {
+        return undefined;
+    }
+}
+
+const isGzip = (data: Uint8Array) => data[0] === 0x1f && data[1] === 0x8b;
+const isJson = (data: Uint8Array) => data[0] === 0x7b || data[0] === 0x5b;
+
+/**
+ * A CDN serving the file with `Content-Encoding` hands over the decoded bytes already,
+ * so the data is checked before decoding.
+ */
+export const decompress = async (data: Uint8Array, encoding?: IEncoding): Promise<Uint8Array> => {
+    if (!encoding || (encoding === 'gzip' && !isGzip(data))) {
+        return data;
+    }
+    const result = await stream(data, encoding);
+    if (result) {
+        return result;
+    }
+    if (encoding === 'gzip') {
+        return gunzip(data);
+    }
+    if (isJson(data) || isBinaryChunk(data)) {
+        return data;
+    }
+    throw (Error(`${encoding} decompression doesn't implemented`))
+}
+
+export const parseJson = async (data: Uint8Array, encoding?: IEncoding) => {
+    return JSON.parse(new TextDecoder().decode(await decompress(data, encoding)));
+}
@@ -0,0 +1,92 @@
+import mingo from "mingo";
+import { RawObject } from "mingo/util";
+import { Db } from "./db";
+const BATCH_SIZE_DEFAULT = 100;
+
+export interface ILookup {
+    from: string;
+    localField: string;
+    foreignField: string;
+    as: string;
+}
+interface IOptions {
+    batchSize: number;
+}
+
+/**
+ * Registry of named collections. Joins fetch the foreign documents by batches of `$in`
+ * queries, so they go through the foreign primary or the indice on the foreign field.
+ */
+export class Database {
+    private collections: Map<string, Db> = new Map();
+    public options: IOptions;
+    constructor(collections: Record<string, Db> = {}, { batchSize = BATCH_SIZE_DEFAULT }: Partial<IOptions> = {}) {
+        Object.entries(collections).forEach(([name, db]) => this.add(name, db));
+        this.options = { batchSize };
+    }
+    add(name: string, db: Db): this {
+        this.collections.set(name, db);
+        return this;
+    }
+    collection(name: string): Db {
+        const db = this.collections.get(name);
+        if (!db) {
+            throw (Error(`collection ${name} doesn't exist`))
+        }
+        return db;
+    }
+    private async foreign(from: string, foreignField: string, values: unknown[]): Promise<Map<unknown, RawObject[]>> {
+        const db = this.collection(from);
+        const keys = [...new Set(values.flat().filter((value) => value !== undefined && value !== null))];
+        const result = new Map<unknown, RawObject[]>();
+        for (let i = 0; i < keys.length; i += this.options.batchSize) {
+            const batch = keys.slice(i, i + this.options.batchSize);
+            const documents = await db.find<RawObject>({ [foreignField]: { $in: batch } });
+            documents.forEach((document) => {
+                [document[foreignField]].flat().forEach((key) => {
+                    result.set(key, [...(result.get(key) || []), document]);
+                });
+            });
+        }
+        return result;
+    }
+    async lookup<T>(documents: RawObject[], { from, localField, foreignField, as }: ILookup): Promise<T[]> {
+        const foreign = await this.foreign(from, foreignField, documents.map((document) => document[localField]));
+        return documents.map<unknown>((document) => {
+            const matches = [...new Set([document[localField]].flat().flatMap((key) => foreign.get(key) || []))];
+            return { ...document, [as]: matches };
+        }) as T[];
+    }
+    async populate<T>(documents: RawObject[], path: string, from: string, foreignField = 'id'): Promise<T[]> {
+        const foreign = await this.foreign(from, foreignField, documents.map((document) => document[path]));
+        return documents.map<unknown>((document) => {
+            const value = document[path];
+            const populated = Array.isArray(value)
+                ? value.map((key) => foreign.get(key)?.[0] || key)
+                : foreign.get(value)?.[0] || value;
+            return { ...document, [path]: populated };
+        }) as T[];
+    }
+    async aggregate<T>(name: string, pipeline: RawObject[]): Promise<T[]> {
+        const first = pipeline.findIndex((stage) => stage.$lookup);
+        const head = first === -1 ? pipeline : pipeline.slice(0, first);
+        let documents = await this.collection(name).aggregate<RawObject>(head);
+        let stages: RawObject[] = [];
+        const flush = () => {
+            if (stages.length) {
+                documents = new mingo.Aggregator(stages).run(documents) as RawObject[];
+                stages = [];
+            }
+        }
+        for (const stage of first === -1 ? [] : pipeline.slice(first)) {
+            if (stage.$lookup) {
+                flush();
+                documents = await this.lookup<RawObject>(documents, stage.$lookup as ILookup);
+            } else {
+                stages.push(stage);
+            }
+        }
+        flush();
+        return documents as T[];
+    }
+}
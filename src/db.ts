@@ -1,8 +1,12 @@
-import { IFindOptions, ISharedIndice } from "interfaces";
+import { ICursorPosition, IFindOptions, ISharedIndice } from "interfaces";
 import mingo from "mingo";
+import "mingo/init/system";
 import { RawObject, isOperator, isArray, isObject } from "mingo/util";
 import { IIndiceOption, Schema } from "./schema";
+import { keyRange } from "./compound";
 import { combineAsyncIterable, getNext, intersectAsyncIterable } from './utils'
+import { ISourceOptions, restoreSchema } from "./utils.browser";
+import { throwIfAborted } from "./abort";
 
 const comparableOperators = new Set([
     '$eq', '$gt', '$gte', '$in', '$lt', '$lte', '$ne', '$nin', '$regex'
@@ -10,15 +14,105 @@ const comparableOperators = new Set([
 const logicalOperators = new Set([
     '$and', '$or'
 ]);
+const rangeOperators = new Set([
+    '$gt', '$gte', '$lt', '$lte'
+]);
+const geoOperators = new Set([
+    '$near', '$geoWithin'
+]);
+interface IMetaSort {
+    $meta: 'textScore';
+}
+export type ISort = { [k: string]: 1 | -1 | IMetaSort };
+export type IProjection = Record<string, unknown>;
+export interface IQueryOptions {
+    /**
+     * Aborts the query and the chunk loads nobody else waits for, the query rejects with `QueryAbortedError`.
+     */
+    signal?: AbortSignal;
+}
+export interface ICursorOptions extends IQueryOptions {
+    token?: string;
+    limit?: number;
+}
+export interface IDbCursor<T> extends AsyncIterable<T> {
+    readonly token?: string;
+}
+interface ICursorToken {
+    fingerprint: string;
+    skip: number;
+    consumed: number;
+    after?: unknown;
+    chunk?: string;
+    offset?: number;
+}
+const fingerprint = (value: unknown): string => {
+    const str = JSON.stringify(value, (key, v) => v instanceof RegExp ? `${v}` : v);
+    let hash = 5381;
+    for (let i = 0; i < str.length; i++) {
+        hash = ((hash << 5) + hash + str.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+}
+const encodeToken = (token: ICursorToken): string => encodeURIComponent(JSON.stringify(token));
+const decodeToken = (token: string, expected: string): ICursorToken => {
+    const result: ICursorToken = JSON.parse(decodeURIComponent(token));
+    if (result.fingerprint !== expected) {
+        throw (Error("cursor token doesn't match the query"))
+    }
+    return result;
+}
+export interface IFacetBuckets {
+    path: string;
+    boundaries: number[];
+    default?: string;
+}
+export type IFacet = string | IFacetBuckets;
+export interface IPlanNode {
+    stage: 'INDEX_SCAN' | 'SORT_SCAN' | 'INTERSECT' | 'UNION' | 'PRIMARY_SCAN';
+    indice?: string;
+    path?: string;
+    paths?: string[];
+    operator?: string;
+    value?: unknown;
+    order?: 1 | -1;
+    children?: IPlanNode[];
+}
+export interface IPredicate {
+    path?: string;
+    operator: string;
+    value: unknown;
+}
+export interface IExplain {
+    plan: IPlanNode;
+    missed: boolean;
+    greed: boolean;
+    sort: {
+        paths: string[];
+        indexed: boolean;
+    };
+    postFilter: IPredicate[];
+    executionStats: {
+        returned: number;
+        chunks: number;
+        primaryChunks: number;
+        executionTimeMillis: number;
+    };
+}
 interface ResultIndiceSearch {
     result: AsyncIterable<unknown[]>;
     missed: boolean;
     greed: boolean;
     paths: Set<string>
     caches: Map<unknown, RawObject>
+    scores: Map<unknown, number>
+    plan: IPlanNode;
+    postFilter: IPredicate[];
+    near: boolean;
+    position?: ICursorPosition;
 }
 export class Db {
-    private schema: Schema;
+    public readonly schema: Schema;
     private customOperators: Set<string> = new Set([])
 
     constructor(schema: Schema) {
@@ -32,44 +126,78 @@ export class Db {
             .filter((path) => !logicalOperators.has(path));
         this.customOperators = new Set(operators)
     }
+    /**
+     * Restores a saved `Db` lazily from `{ baseUrl }` or `{ storage }`, `saveDb` and `restoreDb`
+     * of `utils.ssr` save it and restore it from a directory.
+     */
+    static async restore(source: ISourceOptions): Promise<Db> {
+        return new Db(await restoreSchema(source));
+    }
     buildIndexSearch(
         criteria: RawObject,
-        sort?: { [k: string]: 1 | -1 },
+        sort?: ISort,
         skip?: number,
         limit?: number,
         context?: {
             path?: string,
             isRoot: boolean,
             indices: Map<ISharedIndice<unknown, unknown>, IIndiceOption>,
-            caches?: Map<unknown, Record<string, unknown>>
+            caches?: Map<unknown, Record<string, unknown>>,
+            scores?: Map<unknown, number>,
+            signal?: AbortSignal,
+            position?: ICursorPosition,
         }
     ): () => ResultIndiceSearch {
-        const { isRoot = true, caches = new Map() } = context || {}
+        const { isRoot = true, caches = new Map(), scores = new Map(), signal, position } = context || {}
         const indices: Map<ISharedIndice<unknown, unknown>, IIndiceOption> = new Map();
         const sortIndices: Map<ISharedIndice<unknown, unknown>, IIndiceOption> = new Map();
         const subIterables: (() => ResultIndiceSearch)[] = [];
+        const postFilter: IPredicate[] = [];
         let greed = false;
+        let near = false;
         if (sort) {
             greed = true;
+            let isMetaSort = false;
             for (const [key, order] of Object.entries(sort)) {
+                if (typeof order === 'object') {
+                    isMetaSort = true;
+                    continue;
+                }
                 const indice = this.schema.indices.find(o => o.path === key);
                 if (indice) {
                     sortIndices.set(indice.indice, { ...indice, order });
                     greed = false;
                 }
             }
+            greed = greed || isMetaSort;
+        }
+        const covered = new Set<string>();
+        const compound = context?.path ? undefined : this.compoundIndice(criteria, sort);
+        if (compound) {
+            const { option, value, order, paths, sortCovered } = compound;
+            indices.set(option.indice, { ...option, value, order, op: '$range' });
+            paths.forEach((path) => covered.add(path));
+            if (sortCovered) {
+                sortIndices.clear();
+                greed = false;
+            }
         }
 
         for (const [key, value] of Object.entries(criteria)) {
+            if (covered.has(key)) {
+                continue;
+            }
             if (logicalOperators.has(key) && isArray(value)) {
+                postFilter.push({ path: context?.path, operator: key, value });
                 const subIt = (value as RawObject[])
-                    .map(subCriteria => this.buildIndexSearch(subCriteria, sort, skip, limit, { indices, isRoot: false, caches }));
+                    .map(subCriteria => this.buildIndexSearch(subCriteria, sort, skip, limit, { indices, isRoot: false, caches, scores, signal }));
 
                 () => {
                     const isAnd = key === '$and';
                     const result: ResultIndiceSearch[] = subIt.map(it => it());
                     const greed = isAnd ? result.every(({ greed }) => greed) : result.some(({ greed }) => greed);
                     const missed = isAnd ? result.every(({ missed }) => missed) : result.some(({ missed }) => missed);
+                    const near = result.some(({ near }) => near);
                     const results = result.map(({ result }) => result);
                     const paths = new Set([
                         ...result.reduce((sum, { paths }) => {
@@ -84,10 +212,14 @@ export class Db {
                     const sIs = key === '$and' ? intersectAsyncIterable(results) : combineAsyncIterable(results);
                     subIterables.push(() => ({
                         caches,
+                        scores,
                         result: sIs,
-                        greed,
+                        greed: greed || near,
                         missed,
+                        near,
                         paths,
+                        plan: { stage: isAnd ? 'INTERSECT' : 'UNION', children: result.map(({ plan }) => plan) },
+                        postFilter: result.flatMap(({ postFilter }) => postFilter),
                     }));
                 }
             } else if (this.customOperators.has(key)) {
@@ -97,7 +229,7 @@ export class Db {
                     .filter(i => i.path === key)
                     .pop();
                 if (fullTextIndice) {
-                    indices.set(fullTextIndice.indice, { ...fullTextIndice, value: value as unknown });
+                    indices.set(fullTextIndice.indice, { ...fullTextIndice, value: value as unknown, op: key });
                 }
                 delete criteria[key]
             } else if (isOperator(key)) {
@@ -105,34 +237,55 @@ export class Db {
                 if (indiceOptions) {
                     const exists = sortIndices.get(indiceOptions.indice) || {};
                     indices.set(indiceOptions.indice, { ...exists, ...indiceOptions, value: value as unknown, op: key })
+                } else if (geoOperators.has(key)) {
+                    throw (Error(`${key} without a geo indice on ${context?.path} doesn't implemented`))
+                } else {
+                    postFilter.push({ path: context?.path, operator: key, value });
+                }
+                if (geoOperators.has(key)) {
+                    near = near || key === '$near';
+                    delete criteria[key];
                 }
             } else if (isObject(value)) {
-                subIterables.push(this.buildIndexSearch(value as RawObject, sort, skip, limit, { path: key, indices, isRoot: false, caches }))
+                // the geo operators are removed from the copy, mingo doesn't evaluate them
+                const subCriteria = { ...value as RawObject };
+                subIterables.push(this.buildIndexSearch(subCriteria, sort, skip, limit, { path: key, indices, isRoot: false, caches, scores, signal }))
+                if (Object.keys(subCriteria).length) {
+                    criteria[key] = subCriteria;
+                } else {
+                    delete criteria[key];
+                }
             } else {
                 const indiceOptions = this.schema.indices.find(o => o.path === key);
                 if (indiceOptions) {
                     const exists = sortIndices.get(indiceOptions.indice) || {};
                     indices.set(indiceOptions.indice, { ...exists, ...indiceOptions, value: value as unknown, op: '$eq' })
+                } else {
+                    postFilter.push({ path: key, operator: '$eq', value });
                 }
             }
         }
         return () => {
             const values = [...indices.values()];
-            const simpleIterable = values
-                .map(({ indice, value, order, op }) => {
-                    return this.indiceCursor(indice, value, caches, { sort: order, operator: op, chunkSize: (limit || 0) + (skip || 0) });
-                });
             const subResult: ResultIndiceSearch[] = subIterables.map(it => it());
             const subGreed = subResult.every(({ greed }) => greed);
             const missed = subResult.every(({ missed }) => missed);
+            const subNear = subResult.some(({ near }) => near);
             const subIterable = subResult.map(({ result }) => result);
             const subPaths = subResult.reduce((sum, { paths }) => {
                 paths.forEach(path => sum.add(path));
                 return sum;
             }, new Set<string>());
-            const paths = new Set([...values.map(({ path }) => path!), ...subPaths]);
-            const sortedIterable = [...sortIndices.values()].filter(({ path }) => !paths.has(path!) && isRoot)
-                .map(({ indice, value, order, op }) => this.indiceCursor(indice, value, caches, { sort: order, operator: op, chunkSize: (limit || 0) + (skip || 0) }));
+            const paths = new Set([...values.flatMap(({ path, paths }) => paths || [path!]), ...subPaths]);
+            const sortedValues = [...sortIndices.values()].filter(({ path }) => !paths.has(path!) && isRoot);
+            // a single indice cursor is read directly, its position then matches the ids read so far
+            const single = position && !subResult.length && values.length + sortedValues.length === 1 ? position : undefined;
+            const simpleIterable = values
+                .map(({ indice, value, order, op }) => {
+                    return this.indiceCursor(indice, value, caches, { sort: order, operator: op, chunkSize: (limit || 0) + (skip || 0), scores, signal, position: single });
+                });
+            const sortedIterable = sortedValues
+                .map(({ indice, value, order, op }) => this.indiceCursor(indice, value, caches, { sort: order, operator: op, chunkSize: (limit || 0) + (skip || 0), scores, signal, position: single }));
             const missedAll = !sortedIterable.length && !indices.size && missed;
             const greedAll = greed && subGreed;
             if (isRoot) {
@@ -144,28 +297,275 @@ export class Db {
                     `missed ${missedAll},`
                 );
             }
+            const plan: IPlanNode = missedAll && isRoot ? { stage: 'PRIMARY_SCAN', indice: this.schema.primaryIndice.id } : {
+                stage: 'INTERSECT',
+                children: [
+                    ...values.map((option) => this.planNode('INDEX_SCAN', option)),
+                    ...sortedValues.map((option) => this.planNode('SORT_SCAN', option)),
+                    ...subResult.map(({ plan }) => plan),
+                ],
+            };
             return {
-                result: intersectAsyncIterable([...simpleIterable, ...sortedIterable, ...subIterable]),
-                greed: greedAll,
+                result: single ? [...simpleIterable, ...sortedIterable][0] : intersectAsyncIterable([...simpleIterable, ...sortedIterable, ...subIterable]),
+                greed: greedAll || near || subNear,
                 missed: missedAll,
+                near: near || subNear,
                 paths,
-                caches
+                caches,
+                scores,
+                plan,
+                postFilter: [...postFilter, ...subResult.flatMap(({ postFilter }) => postFilter)],
+                position: single,
             };
         }
     }
 
-    async find<T extends unknown>(criteria: RawObject, sort?: { [k: string]: 1 | -1 }, skip = 0, limit?: number): Promise<T[]> {
+    async find<T extends unknown>(criteria: RawObject, sort?: ISort, skip = 0, limit?: number, projection?: IProjection, { signal }: IQueryOptions = {}): Promise<T[]> {
         console.time('find')
+        const { result } = await this.execute<T>(criteria, sort, skip, limit, projection, signal);
+        console.timeEnd('find')
+        return result;
+    }
+
+    findCursor<T extends unknown>(criteria: RawObject, sort?: ISort, { token, limit, signal }: ICursorOptions = {}): IDbCursor<T> {
+        const print = fingerprint([criteria, sort || {}]);
+        const position: ICursorToken = token ? decodeToken(token, print) : { fingerprint: print, skip: 0, consumed: 0 };
+        const documents = this.documents<T>({ ...criteria }, sort, position, limit, signal);
+        let count = 0;
+        let exhausted = false;
+        return {
+            get token() {
+                return exhausted ? undefined : encodeToken(position);
+            },
+            [Symbol.asyncIterator]() {
+                return {
+                    async next() {
+                        if (limit && count >= limit) {
+                            return { done: true, value: undefined };
+                        }
+                        const result = await documents.next();
+                        if (result.done) {
+                            exhausted = true;
+                            return { done: true, value: undefined };
+                        }
+                        count++;
+                        return { done: false, value: result.value };
+                    }
+                }
+            }
+        }
+    }
+
+    private async *documents<T>(criteria: RawObject, sort: ISort | undefined, position: ICursorToken, limit?: number, signal?: AbortSignal): AsyncGenerator<T> {
+        const { idAttr, primaryIndice } = this.schema;
+        const original = { ...criteria };
+        const chunk = { chunk: position.chunk, offset: position.offset || 0 };
+        const search = this.buildIndexSearch(criteria, sort, undefined, undefined, { indices: new Map(), isRoot: true, signal, position: chunk })();
+        const query = new mingo.Query(criteria);
+        throwIfAborted(signal);
+        if (search.greed) {
+            const { result } = await this.execute<T>(original, sort, 0, limit && limit + position.skip, undefined, signal);
+            for (const value of result.slice(position.skip)) {
+                position.skip++;
+                yield value;
+            }
+        } else if (search.missed) {
+            const { after } = position;
+            const cursor = after === undefined
+                ? primaryIndice.cursor(undefined, { signal })
+                : primaryIndice.cursor({ $gte: after, $lt: typeof after === 'number' ? Infinity : '\uffff' }, { operator: '$range', signal });
+            for await (const values of cursor) {
+                for (const value of values) {
+                    if (value[idAttr] !== after && query.test(value)) {
+                        position.after = value[idAttr];
+                        yield value as T;
+                    }
+                }
+            }
+        } else {
+            let seen = 0;
+            for await (const ids of search.result) {
+                const skipped = search.position ? 0 : Math.min(ids.length, Math.max(0, position.consumed - seen));
+                seen += ids.length;
+                const batch = ids.slice(skipped);
+                const start = chunk.offset - batch.length;
+                const missing = batch.filter((id) => !search.caches.has(id));
+                const values = new Map((missing.length ? await this.findByIds(missing, undefined, signal) : []).map((value) => [value[idAttr], value]));
+                for (const [i, id] of batch.entries()) {
+                    if (search.position) {
+                        position.chunk = chunk.chunk;
+                        position.offset = start + i + 1;
+                    } else {
+                        position.consumed = seen - batch.length + i + 1;
+                    }
+                    const value = search.caches.get(id) || values.get(id);
+                    if (value && query.test(value)) {
+                        yield value as T;
+                    }
+                }
+            }
+        }
+    }
+
+    async aggregate<T extends unknown>(pipeline: RawObject[]): Promise<T[]> {
+        const [first] = pipeline;
+        const criteria = first && first.$match ? { ...first.$match as RawObject } : {};
+        let stage = first && first.$match ? 1 : 0;
+        let sort: ISort | undefined;
+        let skip = 0;
+        let limit: number | undefined;
+        if (pipeline[stage]?.$sort) {
+            sort = pipeline[stage++].$sort as ISort;
+        }
+        if (pipeline[stage]?.$skip !== undefined) {
+            skip = pipeline[stage++].$skip as number;
+        }
+        if (pipeline[stage]?.$limit !== undefined) {
+            limit = pipeline[stage++].$limit as number;
+        }
+        const { result } = await this.execute<RawObject>(criteria, sort, 0, limit && limit + skip);
+        const documents = result.slice(skip);
+        const rest = pipeline.slice(stage);
+        return (rest.length ? new mingo.Aggregator(rest).run(documents) : documents) as T[];
+    }
+
+    async count(criteria: RawObject = {}): Promise<number> {
+        const ids = await this.indexIds({ ...criteria });
+        if (ids) {
+            return ids.size;
+        }
+        const { result } = await this.execute({ ...criteria });
+        return result.length;
+    }
+
+    async distinct<P>(path: string, criteria: RawObject = {}): Promise<P[]> {
+        const option = this.distinctIndice(path);
+        const { [path]: own, ...rest } = criteria;
+        const predicates: [string, unknown][] = own === undefined ? [] : isObject(own) && Object.keys(own as RawObject).every(isOperator)
+            ? Object.entries(own as RawObject)
+            : [['$eq', own]];
+        if (option && predicates.length <= 1) {
+            const [operator, value] = predicates[0] || ['$eq', undefined];
+            const keys = await option.indice.distinct!(value, { operator }) as Map<P, unknown[]>;
+            if (!Object.keys(rest).length) {
+                return [...keys.keys()];
+            }
+            const ids = await this.indexIds({ ...rest });
+            if (ids) {
+                return [...keys].filter(([, values]) => values.some((id) => ids.has(id))).map(([key]) => key);
+            }
+        }
+        const { result } = await this.execute<RawObject>({ ...criteria });
+        return [...new Set(result.flatMap((value) => value[path] as P))];
+    }
+
+    async facets(criteria: RawObject, facets: IFacet[]): Promise<Record<string, Map<unknown, number>>> {
+        const ids = Object.keys(criteria).length ? await this.indexIds({ ...criteria }) : undefined;
+        const covered = !Object.keys(criteria).length || !!ids;
+        const options = facets.map((facet) => typeof facet === 'string' ? { path: facet } : facet);
+        const documents = options.every(({ path }) => covered && this.distinctIndice(path))
+            ? undefined
+            : (await this.execute<RawObject>({ ...criteria })).result;
+        const result: Record<string, Map<unknown, number>> = {};
+        for (const option of options) {
+            const counts = new Map<unknown, number>();
+            if (documents) {
+                documents.forEach((document) => {
+                    [document[option.path]].flat().forEach((key) => counts.set(key, (counts.get(key) || 0) + 1));
+                });
+            } else {
+                const { indice } = this.distinctIndice(option.path)!;
+                const keys = await indice.distinct!() as Map<unknown, unknown[]>;
+                keys.forEach((values, key) => {
+                    const count = ids ? values.filter((id) => ids.has(id)).length : values.length;
+                    if (count) {
+                        counts.set(key, (counts.get(key) || 0) + count);
+                    }
+                });
+            }
+            result[option.path] = 'boundaries' in option ? this.buckets(counts, option) : counts;
+        }
+        return result;
+    }
+
+    private distinctIndice(path: string): IIndiceOption | undefined {
+        return this.schema.indices.find((o) => o.path === path && o.indice !== this.schema.primaryIndice && o.indice.distinct);
+    }
+
+    private buckets(counts: Map<unknown, number>, { boundaries, default: label }: IFacetBuckets): Map<unknown, number> {
+        const result = new Map<unknown, number>(boundaries.slice(0, -1).map((boundary) => [boundary, 0]));
+        counts.forEach((count, key) => {
+            const index = typeof key === 'number' ? boundaries.findIndex((boundary, i) => key >= boundary && key < boundaries[i + 1]) : -1;
+            const bucket = index !== -1 ? boundaries[index] : label;
+            if (bucket !== undefined) {
+                result.set(bucket, (result.get(bucket) || 0) + count);
+            }
+        });
+        return result;
+    }
+
+    private async indexIds(criteria: RawObject): Promise<Set<unknown> | undefined> {
+        const search = this.buildIndexSearch(criteria)();
+        if (search.missed || search.postFilter.length) {
+            return undefined;
+        }
+        const ids = new Set<unknown>();
+        for await (const values of search.result) {
+            values.forEach((id) => ids.add(id));
+        }
+        return ids;
+    }
+
+    async explain(criteria: RawObject, sort?: ISort, skip = 0, limit?: number): Promise<IExplain> {
+        const start = Date.now();
+        const primaryIndice = this.schema.primaryIndice;
+        const secondaryIndices = this.schema.indices
+            .map(({ indice }) => indice)
+            .filter((indice) => indice !== primaryIndice);
+        const primaryLoaded = this.loadedChunks([primaryIndice]);
+        const secondaryLoaded = this.loadedChunks(secondaryIndices);
+        const { result, search } = await this.execute(criteria, sort, skip, limit);
+        return {
+            plan: search.plan,
+            missed: search.missed,
+            greed: search.greed,
+            sort: {
+                paths: Object.keys(sort || {}),
+                indexed: !!sort && !search.greed,
+            },
+            postFilter: search.postFilter,
+            executionStats: {
+                returned: result.length,
+                chunks: this.loadedChunks(secondaryIndices, secondaryLoaded).size,
+                primaryChunks: this.loadedChunks([primaryIndice], primaryLoaded).size,
+                executionTimeMillis: Date.now() - start,
+            },
+        };
+    }
+
+    private loadedChunks(indices: ISharedIndice<unknown, unknown>[], exclude: Set<unknown> = new Set()): Set<unknown> {
+        return new Set(indices
+            .flatMap((indice) => [...indice.indices.values()])
+            .filter((chunk) => chunk.options.isLoaded && !exclude.has(chunk)));
+    }
+
+    private planNode(stage: IPlanNode['stage'], { indice, path, paths, op, value, order }: IIndiceOption): IPlanNode {
+        return { stage, indice: indice.id, path, paths, operator: op, value, order };
+    }
+
+    private async execute<T>(criteria: RawObject, sort?: ISort, skip = 0, limit?: number, projection?: IProjection, signal?: AbortSignal): Promise<{ result: T[], search: ResultIndiceSearch }> {
+        throwIfAborted(signal);
         const chunkSize = limit || 20;
         const primaryIndice = this.schema.primaryIndice;
-        const search: ResultIndiceSearch = this.buildIndexSearch(criteria, sort, skip, limit)();
+        const fields = this.projectionFields(criteria, sort, projection);
+        const search: ResultIndiceSearch = this.buildIndexSearch(criteria, sort, skip, limit, { indices: new Map(), isRoot: true, signal })();
         const result: unknown[] = [];
         const query = new mingo.Query(criteria);
         let i = 0;
         const caches = search.caches.values();
         const isEnough = () => limit && i === limit && !search.greed
         if (search.missed) {
-            for await (const values of primaryIndice.cursor()) {
+            for await (const values of primaryIndice.cursor(undefined, { fields, signal })) {
                 for (const value of values) {
                     if (query.test(value) && i >= skip) {
                         i++;
@@ -175,6 +575,9 @@ export class Db {
                         }
                     }
                 }
+                if (isEnough()) {
+                    break;
+                }
             }
         } else {
             let ids: unknown[] = [];
@@ -196,7 +599,7 @@ export class Db {
                     ids.push(...subIds);
                     if (ids.length >= chunkSize) {
                         const searchIds = ids.filter(id => !search.caches.has(id));
-                        const values = await primaryIndice.find(searchIds.splice(0, chunkSize));
+                        const values = await this.findByIds(searchIds, fields, signal);
                         for (const value of [...values]) {
                             if (query.test(value)) {
                                 i++;
@@ -213,7 +616,7 @@ export class Db {
                     }
                 }
                 if (ids.length) {
-                    const values = await primaryIndice.find(ids);
+                    const values = await this.findByIds(ids, fields, signal);
                     for (const value of values) {
                         if (query.test(value)) {
                             i++;
@@ -229,10 +632,15 @@ export class Db {
             }
 
         }
+        if (search.near && !sort) {
+            const { idAttr } = this.schema;
+            (result as RawObject[]).sort((a, b) => (search.scores.get(b[idAttr]) || 0) - (search.scores.get(a[idAttr]) || 0));
+        }
+        const { values, order, originals } = this.withScores(result as RawObject[], search.scores, sort);
         let res = new mingo.Query({})
-            .find(result);
-        if (sort && search.greed) {
-            res = res.sort(sort);
+            .find(values);
+        if (order && search.greed) {
+            res = res.sort(order);
         }
         if (limit && search.greed) {
             res = res.limit(limit);
@@ -240,17 +648,85 @@ export class Db {
         if (skip && search.greed) {
             res = res.skip(skip);
         }
-        console.timeEnd('find')
-        return res.all() as T[];
+        throwIfAborted(signal);
+        const found = res.all().map(value => originals.get(value as RawObject) || value);
+        return { result: (projection ? new mingo.Query({}).find(found, projection).all() : found) as T[], search };
     }
 
-    private indiceCursor(indice: ISharedIndice<unknown, unknown>, value: unknown, caches: Map<unknown, Record<string, unknown>>, { operator = '$eq', sort = 1 }: Partial<IFindOptions> = {}): AsyncIterable<unknown[]> {
+    private projectionFields(criteria: RawObject, sort?: ISort, projection?: IProjection): string[] | undefined {
+        const include = projection && Object.entries(projection)
+            .filter(([key]) => key !== this.schema.idAttr)
+            .every(([, value]) => !!value && typeof value !== 'object');
+        if (!projection || !include) {
+            return undefined;
+        }
+        const criteriaFields = (value: RawObject): string[] | undefined => {
+            const fields: string[] = [];
+            for (const [key, v] of Object.entries(value)) {
+                if (logicalOperators.has(key) && isArray(v)) {
+                    const sub = (v as RawObject[]).map(criteriaFields);
+                    if (sub.some((f) => !f)) {
+                        return undefined;
+                    }
+                    fields.push(...sub.flat() as string[]);
+                } else if (this.customOperators.has(key)) {
+                    continue;
+                } else if (isOperator(key)) {
+                    return undefined;
+                } else {
+                    fields.push(key);
+                }
+            }
+            return fields;
+        }
+        const filterFields = criteriaFields(criteria);
+        if (!filterFields) {
+            return undefined;
+        }
+        const fields = [this.schema.idAttr, ...Object.keys(projection), ...Object.keys(sort || {}), ...filterFields];
+        return [...new Set(fields.map((field) => field.split('.')[0]))];
+    }
+
+    private async findByIds(ids: unknown[], fields?: string[], signal?: AbortSignal): Promise<RawObject[]> {
+        const { idAttr } = this.schema;
+        const order = new Map(ids.map((id, i) => [id, i]));
+        const values = await this.schema.primaryIndice.find(ids, { fields, signal });
+        return values.sort((a, b) => order.get(a[idAttr])! - order.get(b[idAttr])!);
+    }
+
+    private withScores(values: RawObject[], scores: Map<unknown, number>, sort?: ISort) {
+        const originals = new Map<RawObject, RawObject>();
+        if (!sort) {
+            return { values, originals };
+        }
+        const metaKeys = Object.keys(sort).filter(key => typeof sort[key] === 'object');
+        if (!metaKeys.length) {
+            return { values, order: sort as Record<string, 1 | -1>, originals };
+        }
+        const { idAttr } = this.schema;
+        const order: Record<string, 1 | -1> = {};
+        Object.entries(sort).forEach(([key, o]) => {
+            order[key] = typeof o === 'object' ? -1 : o;
+        });
+        const scored = values.map(value => {
+            const score = scores.get(value[idAttr]) || 0;
+            const scoredValue: RawObject = { ...value };
+            metaKeys.forEach(key => {
+                scoredValue[key] = score;
+            });
+            originals.set(scoredValue, value);
+            return scoredValue;
+        });
+        return { values: scored, order, originals };
+    }
+
+    private indiceCursor(indice: ISharedIndice<unknown, unknown>, value: unknown, caches: Map<unknown, Record<string, unknown>>, { operator = '$eq', sort = 1, scores, signal, position }: Partial<IFindOptions> = {}): AsyncIterable<unknown[]> {
         const { idAttr } = this.schema;
         if (this.schema.primaryIndice !== indice) {
-            const iterator = indice.cursor(value, { operator, sort });
+            const iterator = indice.cursor(value, { operator, sort, scores, signal, position });
             return iterator;
         }
-        const iterator = this.schema.primaryIndice.cursor(value, { operator, sort });
+        const iterator = this.schema.primaryIndice.cursor(value, { operator, sort, scores, signal, position });
         return {
             [Symbol.asyncIterator]() {
                 return {
@@ -269,6 +745,61 @@ export class Db {
 
     }
 
+    private compoundIndice(criteria: RawObject, sort: ISort = {}) {
+        const sortKeys = Object.keys(sort);
+        const candidates = this.schema.indices
+            .filter(({ paths }) => paths && paths.length > 1)
+            .map((option) => {
+                const paths = option.paths!;
+                const values: unknown[] = [];
+                for (const path of paths) {
+                    const value = this.equalityValue(criteria[path]);
+                    if (value === undefined) {
+                        break;
+                    }
+                    values.push(value);
+                }
+                const equals = paths.slice(0, values.length);
+                const next = paths[values.length];
+                const range = next !== undefined ? this.rangeValue(criteria[next]) : undefined;
+                const order = next !== undefined && typeof sort[next] !== 'object' ? sort[next] as 1 | -1 : undefined;
+                const sortCovered = !!sortKeys.length
+                    && sortKeys.every(key => typeof sort[key] !== 'object' && (equals.includes(key) || key === next))
+                    && (!order || sortKeys.indexOf(next) === sortKeys.length - 1);
+                const covered = range ? [...equals, next] : equals;
+                return {
+                    option,
+                    value: keyRange(values, range),
+                    order: order || 1,
+                    paths: covered,
+                    sortCovered,
+                    weight: covered.length + (order ? 1 : 0),
+                };
+            })
+            .filter(({ paths, weight }) => paths.length && weight > 1)
+            .sort((a, b) => b.weight - a.weight);
+        return candidates[0];
+    }
+
+    private equalityValue(value: unknown): unknown {
+        if (isObject(value)) {
+            const keys = Object.keys(value as RawObject);
+            return keys.length === 1 && keys[0] === '$eq' ? (value as RawObject).$eq : undefined;
+        }
+        if (value instanceof RegExp || isArray(value)) {
+            return undefined;
+        }
+        return value;
+    }
+
+    private rangeValue(value: unknown): RawObject | undefined {
+        if (!isObject(value)) {
+            return undefined;
+        }
+        const keys = Object.keys(value as RawObject);
+        return keys.length && keys.every(key => rangeOperators.has(key)) ? value as RawObject : undefined;
+    }
+
     private testIndice(options: IIndiceOption, key: string, value: unknown, path?: string) {
         const pathEqual = options.path === path;
         return pathEqual && options.indice.testIndice(key, value);
@@ -0,0 +1,25 @@
+/**
+ * A chunk, page or manifest file couldn't be loaded after every retry.
+ */
+export class ChunkLoadError extends Error {
+    public path: string;
+    public attempts: number;
+    public cause?: unknown;
+    constructor(path: string, cause?: unknown, attempts = 1) {
+        super(`file ${path} doesn't loaded after ${attempts} attempt(s)${cause instanceof Error ? `: ${cause.message}` : ''}`);
+        this.name = 'ChunkLoadError';
+        this.path = path;
+        this.attempts = attempts;
+        this.cause = cause;
+    }
+}
+
+/**
+ * The `AbortSignal` of a query was aborted.
+ */
+export class QueryAbortedError extends Error {
+    constructor(message = "query is aborted") {
+        super(message);
+        this.name = 'QueryAbortedError';
+    }
+}
@@ -0,0 +1,312 @@
+import nGram from "n-gram";
+import { IFindOptions, ISpreadIndice } from "./interfaces"
+import { chunkCache, sizeOf } from "./cache";
+import { chunkLimiter } from "./limiter";
+import { SharedTask } from "./abort";
+const CHUNK_SIZE_DEFAULT = 100;
+const MAX_EDITS_DEFAULT = 1;
+export interface IFuzzyQuery {
+    value: string;
+    maxEdits?: number;
+    prefixLength?: number;
+}
+type IFuzzyValue = string | string[] | IFuzzyQuery;
+interface IOptions extends Record<string, unknown> {
+    id?: string;
+    gramLen: number;
+    toLowcase: boolean;
+    transpositions: boolean;
+    isLoaded: boolean;
+    load?(options: IOptions & { signal?: AbortSignal }): Promise<never>;
+}
+let id_counter = 1;
+
+export const editDistance = (a: string, b: string, transpositions = true, maxEdits = Infinity): number => {
+    if (Math.abs(a.length - b.length) > maxEdits) {
+        return maxEdits + 1;
+    }
+    let prevPrev: number[] = [];
+    let prev: number[] = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let min = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+            if (transpositions && i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                current[j] = Math.min(current[j], prevPrev[j - 2] + 1);
+            }
+            min = Math.min(min, current[j]);
+        }
+        if (min > maxEdits) {
+            return maxEdits + 1;
+        }
+        prevPrev = prev;
+        prev = current;
+    }
+    return prev[b.length];
+}
+
+export class FuzzyIndice<T> implements ISpreadIndice<T, string>{
+    private nGram: ReturnType<typeof nGram>;
+    public indices: Map<string, Map<string, T[]>> = new Map();
+    public options: IOptions;
+    private loading = new SharedTask((signal) => this.fetch(signal));
+    get keys() {
+        const keys = [...this.indices.keys()];
+        keys.sort((a, b) => {
+            if (a === b) {
+                return 0;
+            }
+            return a < b ? -1 : 1;
+        })
+        return keys;
+    }
+    public get id(): string {
+        return this.options.id!;
+    }
+    constructor({
+        id = `${id_counter++}`,
+        gramLen = 3,
+        toLowcase = true,
+        transpositions = true,
+        isLoaded = true,
+        load
+    }: Partial<IOptions> = {}) {
+        this.nGram = nGram(gramLen)
+        this.options = {
+            gramLen,
+            toLowcase,
+            transpositions,
+            isLoaded,
+            id,
+            load
+        };
+        return this;
+    }
+    add(key: T, value: string | string[]): void {
+        const words: string[] = []
+        if (Array.isArray(value)) {
+            value.forEach((v) => words.push(...this.words(v)))
+        } else {
+            words.push(...this.words(value));
+        }
+        new Set(words).forEach((word) => {
+            this.grams(word).forEach((gram) => {
+                const terms = this.indices.get(gram) || new Map<string, T[]>();
+                const index = terms.get(word) || [];
+                index.push(key);
+                terms.set(word, index);
+                this.indices.set(gram, terms);
+            });
+        });
+    }
+    serializeOptions(): IOptions {
+        const { load, ...options } = this.options;
+        return options;
+    }
+    serializeData(): any[] {
+        return [...this.indices].map(([gram, terms]) => [gram, [...terms]]);
+    }
+    private words(value: string): string[] {
+        const v = this.options.toLowcase ? value.toLowerCase() : value;
+        return v.split(/[^\p{L}\p{N}]+/u).filter((word) => !!word);
+    }
+    private grams(word: string): string[] {
+        return this.nGram(` ${word} `);
+    }
+    private query(value: IFuzzyValue = ''): Required<IFuzzyQuery> {
+        if (typeof value === 'string' || Array.isArray(value)) {
+            return this.query({ value: [value].flat().join(' ') });
+        }
+        const { value: v, maxEdits = MAX_EDITS_DEFAULT, prefixLength = 0 } = value;
+        return { value: v, maxEdits, prefixLength };
+    }
+    /**
+     * An edit breaks up to `gramLen` grams of the padded word (one more for a transposition),
+     * when the edits can break all of them the candidates are scanned.
+     */
+    private isShort(word: string, maxEdits: number): boolean {
+        const { gramLen, transpositions } = this.options;
+        return maxEdits * (gramLen + (transpositions ? 1 : 0)) >= word.length + 2 - gramLen + 1;
+    }
+    /**
+     * No grams when a word is short, so the shared indices read every chunk.
+     */
+    tokenizr(value?: IFuzzyValue): string[] {
+        const { value: v, maxEdits } = this.query(value);
+        const words = this.words(v);
+        return words.some((word) => this.isShort(word, maxEdits)) ? [] : words.flatMap((word) => this.grams(word));
+    }
+    private setData(data: [string, [string, T[]][]][]) {
+        this.indices = new Map(data.map(([gram, terms]) => [gram, new Map(terms)]));
+    }
+    public unload() {
+        if (this.options.load) {
+            this.setData([]);
+            this.options.isLoaded = false;
+        }
+    }
+    public async load(signal?: AbortSignal) {
+        if (this.options.isLoaded) {
+            chunkCache.hit(this);
+            return;
+        } else if (this.options.load) {
+            return this.loading.run(signal);
+        } else {
+            throw (Error("option load doesn't implemented"))
+        }
+    }
+    private async fetch(signal: AbortSignal) {
+        const load = this.options.load!;
+        const { data } = await chunkLimiter.run(() => load({ ...this.options, signal }), signal);
+        this.setData(data);
+        this.options.isLoaded = true;
+        chunkCache.add(this, sizeOf(data));
+    }
+    public async preFilter(tokens: string[], { signal }: Partial<IFindOptions> = {}): Promise<Map<T, number>> {
+        const countResults: Map<T, number> = new Map();
+        chunkCache.acquire(this);
+        try {
+            await this.load(signal);
+            tokens.forEach((token) => {
+                this.indices.get(token)?.forEach((ids) => {
+                    ids.forEach((id) => {
+                        countResults.set(id, (countResults.get(id) || 0) + 1);
+                    });
+                });
+            });
+            return countResults;
+        } finally {
+            chunkCache.release(this);
+        }
+    }
+    /**
+     * Matching ids with the indexes of the query words they match.
+     */
+    public async fuzzy(value?: IFuzzyValue, signal?: AbortSignal): Promise<Map<T, Set<number>>> {
+        const { value: v, maxEdits, prefixLength } = this.query(value);
+        const matched: Map<T, Set<number>> = new Map();
+        chunkCache.acquire(this);
+        try {
+            await this.load(signal);
+            this.words(v).forEach((word, i) => {
+                const distances = new Map<string, number>();
+                const prefix = word.slice(0, prefixLength);
+                const match = (ids: T[], term: string) => {
+                    if (!distances.has(term)) {
+                        distances.set(term, term.startsWith(prefix)
+                            ? editDistance(word, term, this.options.transpositions, maxEdits)
+                            : maxEdits + 1);
+                    }
+                    if (distances.get(term)! <= maxEdits) {
+                        ids.forEach((id) => matched.set(id, (matched.get(id) || new Set()).add(i)));
+                    }
+                };
+                if (this.isShort(word, maxEdits)) {
+                    // every term has one gram opening with the padding, the terms sharing the prefix are read once
+                    const start = ` ${prefix.slice(0, this.options.gramLen - 1)}`;
+                    this.indices.forEach((terms, gram) => {
+                        if (gram.startsWith(start)) {
+                            terms.forEach(match);
+                        }
+                    });
+                } else {
+                    this.grams(word).forEach((gram) => this.indices.get(gram)?.forEach(match));
+                }
+            });
+            return matched;
+        } finally {
+            chunkCache.release(this);
+        }
+    }
+    async find(value?: IFuzzyValue, { signal }: Partial<IFindOptions> = {}): Promise<T[]> {
+        return this.complete(await this.fuzzy(value, signal), value);
+    }
+    public postFilter(countResults: Map<T, number>): T[] {
+        return [...countResults.keys()];
+    }
+    private complete(matched: Map<T, Set<number>>, value?: IFuzzyValue): T[] {
+        const count = this.words(this.query(value).value).length;
+        return [...matched.entries()]
+            .filter(([, words]) => words.size === count)
+            .map(([id]) => id);
+    }
+
+    serialize() {
+        return { data: this.serializeData(), options: this.serializeOptions() }
+    }
+    static deserialize<T, P>(data: any, options?: any) {
+        if (!options) {
+            options = data;
+            data = null;
+        }
+        const index = new FuzzyIndice<T>(options);
+        if (!!data) {
+            if (data instanceof Map) {
+                index.indices = data;
+            } else {
+                index.setData(data);
+            }
+        }
+        return index;
+    }
+    public spread(chunkSize: number = CHUNK_SIZE_DEFAULT): ISpreadIndice<T, string>[] {
+        const { id, ...options } = this.options;
+        const result: ISpreadIndice<T, string>[] = [];
+        let size = 0;
+        let map = new Map<string, Map<string, T[]>>();
+        this.keys.forEach((key) => {
+            const terms = this.indices.get(key)!;
+            const length = [...terms.values()].reduce((sum, ids) => sum + ids.length, 0);
+            if (size && size + length > chunkSize) {
+                result.push(FuzzyIndice.deserialize<T, string>(map, options));
+                size = 0;
+                map = new Map();
+            }
+            size = size + length;
+            map.set(key, new Map(terms));
+        })
+        if (size != 0) {
+            result.push(FuzzyIndice.deserialize<T, string>(map, options))
+        }
+        return result;
+    }
+    private combine(list: Map<T, Set<number>>[]): Map<T, Set<number>> {
+        return list.reduce((sum, matched) => {
+            matched.forEach((words, key) => {
+                sum.set(key, new Set([...(sum.get(key) || []), ...words]));
+            })
+            return sum;
+        }, new Map<T, Set<number>>());
+    }
+    public async findAll(indices: ISpreadIndice<T, string>[], value?: IFuzzyValue, { signal }: Partial<IFindOptions> = {}): Promise<T[]> {
+        const list = await Promise.all((indices as FuzzyIndice<T>[]).map((indice) => indice.fuzzy(value, signal)));
+        return this.complete(this.combine(list), value);
+    }
+    public cursorAll(indices: ISpreadIndice<T, string>[], value?: IFuzzyValue, { chunkSize = 20, signal, position }: Partial<IFindOptions> = {}): AsyncIterable<T[]> {
+        const complete = this.complete.bind(this);
+        const combine = this.combine.bind(this);
+        let result: T[] | null = null;
+        return {
+            [Symbol.asyncIterator]() {
+                return {
+                    async next() {
+                        if (!result) {
+                            const list = await Promise.all((indices as FuzzyIndice<T>[]).map((indice) => indice.fuzzy(value, signal)));
+                            result = complete(combine(list), value).slice(position?.offset || 0);
+                        }
+                        if (result.length) {
+                            const value = result.splice(0, chunkSize || result.length);
+                            if (position) {
+                                position.offset += value.length;
+                            }
+                            return { done: false, value };
+                        }
+                        return { done: true, value: undefined };
+                    }
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,300 @@
+import { IFindOptions, ISpreadIndice } from "./interfaces";
+import { SimpleIndice } from "./simple.indice";
+import { chunkCache } from "./cache";
+const PRECISION_DEFAULT = 10;
+const MAX_CELLS = 32;
+const EARTH_RADIUS = 6378100;
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+export type IGeoPoint = [number, number] | { type: 'Point', coordinates: [number, number] };
+export interface IGeoNear {
+    $geometry: IGeoPoint;
+    $maxDistance?: number;
+    $minDistance?: number;
+}
+export interface IGeoWithin {
+    $box?: [[number, number], [number, number]];
+    $polygon?: [number, number][];
+    $centerSphere?: [[number, number], number];
+    $geometry?: { type: 'Polygon', coordinates: [number, number][][] };
+}
+export type IGeoQuery = IGeoNear | IGeoWithin;
+type IBox = [number, number, number, number];
+interface IShape {
+    box: IBox;
+    test(lng: number, lat: number): boolean;
+    center?: [number, number];
+}
+interface IOptions extends Record<string, unknown> {
+    id?: string;
+    precision: number;
+    isLoaded: boolean;
+    load?(options: IOptions & { signal?: AbortSignal }): Promise<never>;
+}
+
+export const encodeGeohash = (lng: number, lat: number, precision = PRECISION_DEFAULT): string => {
+    const lngRange = [-180, 180];
+    const latRange = [-90, 90];
+    let hash = '';
+    let bits = 0;
+    let value = 0;
+    for (let i = 0; hash.length < precision; i++) {
+        const [range, coordinate] = i % 2 === 0 ? [lngRange, lng] : [latRange, lat];
+        const middle = (range[0] + range[1]) / 2;
+        value = value * 2 + (coordinate >= middle ? 1 : 0);
+        range[coordinate >= middle ? 0 : 1] = middle;
+        if (++bits === 5) {
+            hash += BASE32[value];
+            bits = 0;
+            value = 0;
+        }
+    }
+    return hash;
+}
+
+/**
+ * Returns the center of the geohash cell as `[lng, lat]`.
+ */
+export const decodeGeohash = (hash: string): [number, number] => {
+    const lngRange = [-180, 180];
+    const latRange = [-90, 90];
+    let even = true;
+    for (const char of hash) {
+        const value = BASE32.indexOf(char);
+        for (let bit = 4; bit >= 0; bit--) {
+            const range = even ? lngRange : latRange;
+            range[(value >> bit) & 1 ? 0 : 1] = (range[0] + range[1]) / 2;
+            even = !even;
+        }
+    }
+    return [(lngRange[0] + lngRange[1]) / 2, (latRange[0] + latRange[1]) / 2];
+}
+
+/**
+ * Great-circle distance in meters.
+ */
+export const geoDistance = ([lng1, lat1]: [number, number], [lng2, lat2]: [number, number]): number => {
+    const rad = Math.PI / 180;
+    const a = Math.sin((lat2 - lat1) * rad / 2) ** 2
+        + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin((lng2 - lng1) * rad / 2) ** 2;
+    return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+const pointOf = (point: IGeoPoint): [number, number] => Array.isArray(point) ? point : point.coordinates;
+const isPoint = (value: unknown): value is IGeoPoint => Array.isArray(value)
+    ? typeof value[0] === 'number'
+    : (value as { type?: string }).type === 'Point';
+const isNear = (query: IGeoQuery): query is IGeoNear => !!query.$geometry
+    && (Array.isArray(query.$geometry) || query.$geometry.type === 'Point');
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const boxOf = (points: [number, number][]): IBox => [
+    Math.min(...points.map(([lng]) => lng)),
+    Math.min(...points.map(([, lat]) => lat)),
+    Math.max(...points.map(([lng]) => lng)),
+    Math.max(...points.map(([, lat]) => lat)),
+];
+const inRing = (ring: [number, number][], lng: number, lat: number) => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if ((yi > lat) !== (yj > lat) && lng < (xj - xi) * (lat - yi) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+const circle = (center: [number, number], radius: number, minRadius = 0): IShape => {
+    const [lng, lat] = center;
+    const dLat = radius / EARTH_RADIUS * 180 / Math.PI;
+    const cos = Math.cos(lat * Math.PI / 180);
+    const dLng = cos > 1e-6 ? Math.min(180, dLat / cos) : 180;
+    return {
+        box: [clamp(lng - dLng, -180, 180), clamp(lat - dLat, -90, 90), clamp(lng + dLng, -180, 180), clamp(lat + dLat, -90, 90)],
+        test: (lng, lat) => {
+            const distance = geoDistance(center, [lng, lat]);
+            return distance <= radius && distance >= minRadius;
+        },
+        center,
+    };
+}
+
+/**
+ * Parses `$near` and `$geoWithin` values. Shapes crossing the antimeridian aren't supported.
+ */
+export const geoShape = (query: IGeoQuery): IShape => {
+    if (isNear(query)) {
+        const { $geometry, $maxDistance = Infinity, $minDistance = 0 } = query as IGeoNear;
+        return circle(pointOf($geometry), Math.min($maxDistance, Math.PI * EARTH_RADIUS), $minDistance);
+    }
+    const { $box, $polygon, $centerSphere, $geometry } = query as IGeoWithin;
+    if ($box) {
+        const box = boxOf($box);
+        return { box, test: (lng, lat) => lng >= box[0] && lat >= box[1] && lng <= box[2] && lat <= box[3] };
+    } else if ($polygon) {
+        return { box: boxOf($polygon), test: (lng, lat) => inRing($polygon, lng, lat) };
+    } else if ($centerSphere) {
+        const [center, radians] = $centerSphere;
+        return circle(center, radians * EARTH_RADIUS);
+    } else if ($geometry && $geometry.type === 'Polygon') {
+        const [outer, ...holes] = $geometry.coordinates;
+        return {
+            box: boxOf(outer),
+            test: (lng, lat) => inRing(outer, lng, lat) && !holes.some((hole) => inRing(hole, lng, lat)),
+        };
+    }
+    throw (Error(`shape ${Object.keys(query)} doesn't implemented`))
+}
+
+/**
+ * Geohash cells covering the box, the precision is the largest one needing at most `MAX_CELLS` cells.
+ */
+export const geoCells = ([minLng, minLat, maxLng, maxLat]: IBox, maxPrecision = PRECISION_DEFAULT): string[] => {
+    const size = (precision: number): [number, number] => [
+        360 / 2 ** Math.ceil(precision * 5 / 2),
+        180 / 2 ** Math.floor(precision * 5 / 2),
+    ];
+    const count = (precision: number) => {
+        const [width, height] = size(precision);
+        return (Math.floor(maxLng / width) - Math.floor(minLng / width) + 1) * (Math.floor(maxLat / height) - Math.floor(minLat / height) + 1);
+    }
+    let precision = 1;
+    while (precision < maxPrecision && count(precision + 1) <= MAX_CELLS) {
+        precision++;
+    }
+    const [width, height] = size(precision);
+    const cells = new Set<string>();
+    for (let lat = minLat; lat < maxLat + height; lat += height) {
+        for (let lng = minLng; lng < maxLng + width; lng += width) {
+            cells.add(encodeGeohash(Math.min(lng, maxLng), Math.min(lat, maxLat), precision));
+        }
+    }
+    return [...cells].sort();
+}
+
+/**
+ * Spread indice of points keyed by geohash, so `RangeLinearIndice` partitions it by geohash prefix.
+ * `$near` and `$geoWithin` load the chunks holding the covering cells and test the center of every
+ * point cell, about a meter off at the default precision.
+ * With `$near` the results are ordered by distance and the score of a document is its negative distance.
+ */
+export class GeoIndice<T> extends SimpleIndice<T, string> {
+    declare public options: IOptions;
+    constructor({ precision = PRECISION_DEFAULT, ...options }: Partial<IOptions> = {}) {
+        super(options);
+        this.options = { ...this.options, precision };
+    }
+    add(key: T, value: string | string[] | IGeoPoint): void {
+        if (typeof value === 'string' || (Array.isArray(value) && typeof value[0] === 'string')) {
+            return super.add(key, value as string | string[]);
+        }
+        super.add(key, this.tokenizr(value as IGeoPoint));
+    }
+    /**
+     * A point gives its geohash, what `update` edits the chunks with, a query gives the cells covering it.
+     */
+    tokenizr(value: string | IGeoQuery | IGeoPoint): string[] {
+        if (typeof value === 'string') {
+            return [value];
+        }
+        if (isPoint(value)) {
+            const [lng, lat] = pointOf(value);
+            return [encodeGeohash(lng, lat, this.options.precision)];
+        }
+        return geoCells(geoShape(value).box, this.options.precision);
+    }
+    /**
+     * Matching ids with their distance to the `$near` point, `0` for `$geoWithin`.
+     */
+    public async geoFilter(shape: IShape, cells: string[], signal?: AbortSignal): Promise<Map<T, number>> {
+        chunkCache.acquire(this);
+        try {
+            await this.load(signal);
+            const result = new Map<T, number>();
+            this.keys
+                .filter((key) => cells.some((cell) => key.startsWith(cell)))
+                .forEach((key) => {
+                    const point = decodeGeohash(key);
+                    if (shape.test(...point)) {
+                        const distance = shape.center ? geoDistance(shape.center, point) : 0;
+                        this.indices.get(key)!.forEach((id) => result.set(id, distance));
+                    }
+                });
+            return result;
+        } finally {
+            chunkCache.release(this);
+        }
+    }
+    public async preFilter(tokens: string[], { signal }: Partial<IFindOptions> = {}): Promise<Map<T, number>> {
+        chunkCache.acquire(this);
+        try {
+            await this.load(signal);
+            const result = new Map<T, number>();
+            this.keys
+                .filter((key) => tokens.some((token) => key.startsWith(token)))
+                .forEach((key) => this.indices.get(key)!.forEach((id) => result.set(id, 1)));
+            return result;
+        } finally {
+            chunkCache.release(this);
+        }
+    }
+    private async geoFind(indices: ISpreadIndice<T, string>[], value: IGeoQuery, { scores, signal }: Partial<IFindOptions>): Promise<T[]> {
+        const shape = geoShape(value);
+        const cells = geoCells(shape.box, this.options.precision);
+        const list = await Promise.all((indices as GeoIndice<T>[]).map((indice) => indice.geoFilter(shape, cells, signal)));
+        const distances = list.reduce((sum, item) => {
+            item.forEach((distance, id) => sum.set(id, distance));
+            return sum;
+        }, new Map<T, number>());
+        const result = [...distances.keys()];
+        if (isNear(value)) {
+            result.sort((a, b) => distances.get(a)! - distances.get(b)!);
+            result.forEach((id) => scores?.set(id, -distances.get(id)!));
+        }
+        return result;
+    }
+    public async findAll(indices: ISpreadIndice<T, string>[], value?: string | string[] | IGeoQuery, options: Partial<IFindOptions> = {}): Promise<T[]> {
+        if (value === undefined || typeof value === 'string' || Array.isArray(value)) {
+            return super.findAll(indices, value, options);
+        }
+        return this.geoFind(indices, value, options);
+    }
+    public cursorAll(indices: ISpreadIndice<T, string>[], value?: string | string[] | IGeoQuery, options: Partial<IFindOptions> = {}): AsyncIterable<T[]> {
+        if (value === undefined || typeof value === 'string' || Array.isArray(value)) {
+            return super.cursorAll(indices, value, options);
+        }
+        const geoFind = () => this.geoFind(indices, value, options);
+        const { chunkSize = 20, position } = options;
+        let result: T[] | null = null;
+        return {
+            [Symbol.asyncIterator]() {
+                return {
+                    async next() {
+                        if (!result) {
+                            result = (await geoFind()).slice(position?.offset || 0);
+                        }
+                        if (result.length) {
+                            const value = result.splice(0, chunkSize || result.length);
+                            if (position) {
+                                position.offset += value.length;
+                            }
+                            return { done: false, value };
+                        }
+                        return { done: true, value: undefined };
+                    }
+                }
+            }
+        }
+    }
+    static deserialize<T, P>(data: any, options?: any): SimpleIndice<T, P> {
+        if (!options) {
+            options = data;
+            data = null;
+        }
+        const index = new GeoIndice<T>(options);
+        if (!!data) {
+            index.indices = data instanceof Map ? data : new Map(data);
+        }
+        return index as unknown as SimpleIndice<T, P>;
+    }
+}
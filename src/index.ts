@@ -1,8 +1,34 @@
 
 export * from './interfaces';
 export * from './ngram.indice';
+export * from './text.indice';
+export * from './analyzer';
 export * from './simple.indice';
+export * from './column.indice';
+export * from './prefix.indice';
+export * from './fuzzy.indice';
+export * from './geo.indice';
 export * from './range.linear.indice';
-export { saveSharedIndices, restoreSharedIndices } from "./utils.ssr";
-export { restoreSharedIndices as restoreSharedIndicesBrowser } from "./utils.browser";
+export * from './range.tree.indice';
+export { encodeKey, keyRange, compoundIndice } from './compound';
+export type { ICompoundIndice } from './compound';
+export { compareKeys, keysReplacer, keysReviver, stringifyKeys, parseKeys } from './keys';
+export type { IKey } from './keys';
+export { decompress, gunzip } from './compression';
+export type { IEncoding } from './compression';
+export { encodeChunk, decodeChunk } from './codec';
+export type { IChunkEntry, IFormat } from './codec';
+export * from './database';
+export * from './registry';
+export * from './cache';
+export * from './limiter';
+export * from './errors';
+export { SharedTask } from './abort';
+export * from './storage';
+export { FsStorage } from './storage.fs';
+export { loader, retry, restoreLazySharedIndices } from './persistence';
+export type { IManifest, IRootPointer, ILoaderOptions, IRetryOptions } from './persistence';
+export { saveSharedIndices, restoreSharedIndices, updateSharedIndices, saveSchema, restoreSchema, saveDb, restoreDb } from "./utils.ssr";
+export type { IDocumentChanges } from "./utils.ssr";
+export { restoreSharedIndices as restoreSharedIndicesBrowser, restoreSchema as restoreSchemaBrowser } from "./utils.browser";
 
@@ -4,15 +4,32 @@ export interface ISerializeIndex {
     serializeOptions(): Record<string, unknown>;
     serializeData(): unknown[];
 }
+export interface IKeyRange<P> {
+    $gte: P;
+    $lt: P;
+}
 export interface IFindOptions {
     operator: string;
     sort: 1 | -1,
     chunkSize: number,
+    scores?: Map<unknown, number>,
+    limit?: number,
+    fields?: string[],
+    signal?: AbortSignal,
+    position?: ICursorPosition,
+}
+/**
+ * Where a cursor resumes: the chunk and the count of its ids already read.
+ * Cursors combining every chunk leave `chunk` empty and count the ids of the whole result.
+ */
+export interface ICursorPosition {
+    chunk?: string;
+    offset: number;
 }
 
 export interface IBaseIndice<T, P> {
     id: string;
-    find(search: P[] | P, options?: IFindOptions): Promise<T[]>;
+    find(search: P[] | P, options?: Partial<IFindOptions>): Promise<T[]>;
 }
 export interface IIndice<T, P> extends ISerializeIndex, IBaseIndice<T, P> {
     tokenizr(search: P): P[];
@@ -20,15 +37,44 @@ export interface IIndice<T, P> extends ISerializeIndex, IBaseIndice<T, P> {
     keys: P[];
 }
 export interface ISpreadIndice<T, P> extends IIndice<T, P> {
+    options: { isLoaded: boolean, load?: unknown };
     spread(chunkSize: number): ISpreadIndice<T, P>[];
+    /**
+     * Tokens of a query when they differ from the stored ones, the shared indices select the chunks with them.
+     */
+    queryTokenizr?(search: P): P[];
     postFilter(countResults: Map<T, number>, tokens: P[]): T[];
     preFilter(tokens: P[], options: Partial<IFindOptions>): Promise<Map<T, number>>;
     findAll(indices: ISpreadIndice<T, P>[], value?: P | P[], options?: Partial<IFindOptions>): Promise<T[]>;
     cursorAll(indices: ISpreadIndice<T, P>[], value?: P | P[], options?: Partial<IFindOptions>): AsyncIterable<T[]>;
+    distinct?(tokens: P[], options: Partial<IFindOptions>): Promise<Map<P, T[]>>;
+    serializeGroups?(): [string, unknown[]][];
+    load?(signal?: AbortSignal): Promise<void>;
+    unload?(): void;
+    remove?(key: T, value: P | P[]): void;
+    /**
+     * Edits the postings of tokens already produced by `tokenizr`, the shared indices `update` needs both.
+     * `value` is the one the tokens come from.
+     */
+    addTokens?(key: T, tokens: P[], value?: P | P[]): void;
+    removeTokens?(key: T, tokens: P[]): void;
+}
+export interface IIndiceChanges<T, P> {
+    add?: [T, P | P[]][];
+    remove?: [T, P | P[]][];
+}
+export interface IIndiceUpdate<T, P> {
+    added: ISpreadIndice<T, P>[];
+    removed: ISpreadIndice<T, P>[];
 }
 export interface ISharedIndice<T, P> extends IBaseIndice<T, P>, ISerializeIndex {
+    options: { isLoaded: boolean, load?: unknown, loadPage?: unknown };
     indices: Map<unknown, ISpreadIndice<T, P>>
     cursor(value?: P | P[], options?: Partial<IFindOptions>): AsyncIterable<T[]>;
     testIndice(key: string, value: unknown): boolean;
+    distinct?(value?: P | P[], options?: Partial<IFindOptions>): Promise<Map<P, T[]>>;
+    serializePages?(): [string, unknown][];
+    update?(changes: IIndiceChanges<T, P>): Promise<IIndiceUpdate<T, P>>;
+    prefetch?(value?: P | P[], options?: Partial<IFindOptions>): Promise<void>;
 
 }
\ No newline at end of file
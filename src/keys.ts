@@ -0,0 +1,90 @@
+export type IKey = string | number | bigint | Date;
+
+const rank = (key: unknown): number => {
+    if (typeof key === 'number' || typeof key === 'bigint') {
+        return 0;
+    }
+    if (typeof key === 'string') {
+        return 1;
+    }
+    if (key instanceof Date) {
+        return 2;
+    }
+    return 3;
+}
+
+/**
+ * Total order of index keys: numbers and bigints by value, then strings, then dates by time.
+ * Keys of different types never compare as equal, so `1` and `'1'` stay distinct.
+ */
+export const compareKeys = (a: unknown, b: unknown): number => {
+    const typeA = rank(a);
+    const typeB = rank(b);
+    if (typeA !== typeB) {
+        return typeA - typeB;
+    }
+    const [left, right] = typeA === 2 ? [(a as Date).getTime(), (b as Date).getTime()] : [a as any, b as any];
+    if (left === right) {
+        return 0;
+    }
+    return left < right ? -1 : left > right ? 1 : 0;
+}
+
+const TAG = /^\$+(date|bigint|number)$/;
+const tagOf = (value: unknown): string | undefined => {
+    if (value === null || typeof value !== 'object' || Array.isArray(value) || value instanceof Date) {
+        return undefined;
+    }
+    const keys = Object.keys(value as Record<string, unknown>);
+    return keys.length === 1 && TAG.test(keys[0]) ? keys[0] : undefined;
+}
+
+/**
+ * `JSON.stringify` replacer tagging the values JSON loses: `{ $date }`, `{ $bigint }` and
+ * `{ $number }` for `NaN` and infinities. `Date.toJSON` runs before the replacer, so the raw value is read from the holder.
+ * Stored objects looking like a tag get one more `$` (`{ $$date }`), so they are read back unchanged.
+ */
+export function keysReplacer(this: any, key: string, value: unknown): unknown {
+    const raw = this[key];
+    if (raw instanceof Date) {
+        return { $date: raw.getTime() };
+    }
+    if (typeof raw === 'bigint') {
+        return { $bigint: raw.toString() };
+    }
+    if (typeof raw === 'number' && !Number.isFinite(raw)) {
+        return { $number: `${raw}` };
+    }
+    const tag = tagOf(value);
+    if (tag) {
+        return { [`$${tag}`]: (value as Record<string, unknown>)[tag] };
+    }
+    return value;
+}
+
+/**
+ * `JSON.parse` reviver restoring the values tagged by `keysReplacer`.
+ */
+export const keysReviver = (key: string, value: any): unknown => {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return value;
+    }
+    const tag = tagOf(value);
+    if (tag?.startsWith('$$')) {
+        return { [tag.slice(1)]: value[tag] };
+    }
+    switch (tag) {
+        case '$date':
+            return new Date(value.$date);
+        case '$bigint':
+            return BigInt(value.$bigint);
+        case '$number':
+            return Number(value.$number);
+        default:
+            return value;
+    }
+}
+
+export const stringifyKeys = (value: unknown): string => JSON.stringify(value, keysReplacer);
+
+export const parseKeys = <R = any>(text: string): R => JSON.parse(text, keysReviver);
@@ -0,0 +1,62 @@
+import { QueryAbortedError } from "./errors";
+
+const DEFAULT_CONCURRENCY = 6;
+
+export interface ILimiterOptions {
+    concurrency: number;
+}
+
+/**
+ * Runs at most `concurrency` tasks at once, the rest wait in FIFO order.
+ */
+export class Limiter {
+    private active = 0;
+    private queue: (() => void)[] = [];
+    public options: ILimiterOptions;
+    constructor({ concurrency = DEFAULT_CONCURRENCY }: Partial<ILimiterOptions> = {}) {
+        this.options = { concurrency };
+    }
+    configure(options: Partial<ILimiterOptions>): this {
+        this.options = { ...this.options, ...options };
+        this.next();
+        return this;
+    }
+    get pending(): number {
+        return this.queue.length;
+    }
+    private next() {
+        while (this.active < this.options.concurrency && this.queue.length) {
+            this.active++;
+            this.queue.shift()!();
+        }
+    }
+    /**
+     * A task whose signal is aborted while it waits leaves the queue without running.
+     */
+    async run<R>(task: () => Promise<R>, signal?: AbortSignal): Promise<R> {
+        await new Promise<void>((resolve, reject) => {
+            if (signal?.aborted) {
+                return reject(new QueryAbortedError());
+            }
+            const abort = () => {
+                this.queue = this.queue.filter((item) => item !== start);
+                reject(new QueryAbortedError());
+            };
+            const start = () => {
+                signal?.removeEventListener('abort', abort);
+                resolve();
+            };
+            signal?.addEventListener('abort', abort, { once: true });
+            this.queue.push(start);
+            this.next();
+        });
+        try {
+            return await task();
+        } finally {
+            this.active--;
+            this.next();
+        }
+    }
+}
+
+export const chunkLimiter = new Limiter();
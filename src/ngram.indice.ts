@@ -1,24 +1,44 @@
 import nGram from "n-gram";
+import { Analyzer, IAnalyzerOptions, resolveAnalyzer } from "./analyzer";
 import { IFindOptions, ISpreadIndice } from "./interfaces"
+import { chunkCache, sizeOf } from "./cache";
+import { chunkLimiter } from "./limiter";
+import { SharedTask } from "./abort";
 const CHUNK_SIZE_DEFAULT = 100;
 const AUTO_LIMIT_FIND_PERCENT = 40;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+/**
+ * Corpus totals shared by every chunk, the document frequency of a term and the length of a
+ * document are kept next to the postings of the chunk.
+ */
+export interface INgramStats {
+    docCount: number;
+    avgDocLength: number;
+}
 interface IOptions extends Record<string, unknown> {
     id?: string;
     gramLen: number;
     actuationLimit: number;
     toLowcase: boolean;
     actuationLimitAuto: boolean;
+    analyzer?: string | IAnalyzerOptions;
     preTokenizr?(value: string): string;
     postTokenizr?(value: string, tokens: string[]): string[];
     isLoaded: boolean;
-    load?(options: IOptions): Promise<never>;
+    stats?: INgramStats;
+    load?(options: IOptions & { signal?: AbortSignal }): Promise<never>;
 }
 let id_counter = 1;
 
 export class NgramIndice<T> implements ISpreadIndice<T, string>{
     private nGram: ReturnType<typeof nGram>;
+    protected analyzer?: Analyzer;
     public indices: Map<string, T[]> = new Map();
     public options: IOptions;
+    private loading = new SharedTask((signal) => this.fetch(signal));
+    private docFreq: Map<string, number> = new Map();
+    private docLength: Map<T, number> = new Map();
     get keys() {
         const keys = [...this.indices.keys()];
         keys.sort((a, b) => {
@@ -38,21 +58,73 @@ export class NgramIndice<T> implements ISpreadIndice<T, string>{
         actuationLimit = 2,
         toLowcase = true,
         actuationLimitAuto = false,
+        analyzer,
         isLoaded = true,
+        stats,
         load
     }: Partial<IOptions> = {}) {
         this.nGram = nGram(gramLen)
+        if (analyzer) {
+            this.analyzer = new Analyzer(resolveAnalyzer(analyzer));
+        }
         this.options = {
             gramLen,
             actuationLimit,
             toLowcase,
             actuationLimitAuto,
+            analyzer: this.analyzer?.options,
             isLoaded,
             id,
+            stats,
             load
         };
         return this;
     }
+    get stats(): INgramStats {
+        if (!this.options.stats) {
+            this.options.stats = this.buildStats();
+        }
+        return this.options.stats;
+    }
+    private buildStats(): INgramStats {
+        this.docFreq = new Map();
+        this.docLength = new Map();
+        let totalLength = 0;
+        this.indices.forEach((ids, token) => {
+            this.docFreq.set(token, new Set(ids).size);
+            ids.forEach((id) => this.docLength.set(id, (this.docLength.get(id) || 0) + 1));
+            totalLength += ids.length;
+        });
+        const docCount = this.docLength.size;
+        return {
+            docCount,
+            avgDocLength: docCount ? totalLength / docCount : 0,
+        };
+    }
+    /**
+     * Postings as `[term, ids[], docFreq, docLengths[]]`, the lengths of the documents follow their ids.
+     */
+    private entries(indices: Iterable<[string, T[]]>): [string, T[], number, number[]][] {
+        const { avgDocLength } = this.stats;
+        return [...indices].map(([term, ids]) => [
+            term,
+            ids,
+            this.docFreq.get(term) ?? new Set(ids).size,
+            ids.map((id) => this.docLength.get(id) ?? Math.round(avgDocLength)),
+        ]);
+    }
+    public setData(data: [string, T[], number?, number[]?][]) {
+        this.indices = new Map();
+        this.docFreq = new Map();
+        this.docLength = new Map();
+        data.forEach(([term, ids, docFreq, docLengths]) => {
+            this.indices.set(term, ids);
+            if (docFreq !== undefined) {
+                this.docFreq.set(term, docFreq);
+            }
+            docLengths?.forEach((length, i) => this.docLength.set(ids[i], length));
+        });
+    }
     add(key: T, value: string | string[]): void {
         const tokens: string[] = []
         if (Array.isArray(value)) {
@@ -65,57 +137,134 @@ export class NgramIndice<T> implements ISpreadIndice<T, string>{
             index.push(key);
             this.indices.set(token, index);
         });
+        this.options.stats = undefined;
+    }
+    /**
+     * The BM25 totals stay the ones of the last build, the document frequencies follow the postings.
+     */
+    addTokens(key: T, tokens: string[]): void {
+        tokens.forEach((token) => {
+            const index = this.indices.get(token) || [];
+            if (this.docFreq.has(token) && !index.includes(key)) {
+                this.docFreq.set(token, this.docFreq.get(token)! + 1);
+            }
+            index.push(key);
+            this.indices.set(token, index);
+        });
+    }
+    removeTokens(key: T, tokens: string[]): void {
+        new Set(tokens).forEach((token) => {
+            const ids = this.indices.get(token) || [];
+            const index = ids.filter((id) => id !== key);
+            if (index.length === ids.length) {
+                return;
+            }
+            if (this.docFreq.has(token)) {
+                this.docFreq.set(token, this.docFreq.get(token)! - 1);
+            }
+            if (index.length) {
+                this.indices.set(token, index);
+            } else {
+                this.indices.delete(token);
+                this.docFreq.delete(token);
+            }
+        });
+        this.docLength.delete(key);
     }
     serializeOptions(): IOptions {
         const { load, ...options } = this.options;
-        return options;
+        return { ...options, stats: this.stats };
     }
     serializeData(): any[] {
-        return [...this.indices];
+        return this.entries(this.indices);
     }
     tokenizr(value: string): string[] {
         const { preTokenizr, postTokenizr } = this.options;
-        let v = preTokenizr ? preTokenizr(value) : value
-        v = this.options.toLowcase ? v.toLowerCase() : v;
-        const tokens = v.split(" ").flatMap((word) => this.nGram(word))
+        const v = preTokenizr ? preTokenizr(value) : value
+        const tokens = this.words(v).flatMap((word) => this.nGram(word))
         return postTokenizr ? postTokenizr(value, tokens) : tokens;
 
     }
-    private async load() {
+    protected words(value: string): string[] {
+        if (this.analyzer) {
+            return this.analyzer.analyze(value);
+        }
+        const v = this.options.toLowcase ? value.toLowerCase() : value;
+        return v.split(" ");
+    }
+    public unload() {
+        if (this.options.load) {
+            this.indices = new Map();
+            this.options.isLoaded = false;
+        }
+    }
+    public async load(signal?: AbortSignal) {
         if (this.options.isLoaded) {
+            chunkCache.hit(this);
             return;
         } else if (this.options.load) {
-            const { data } = await this.options.load(this.options);
-            this.indices = new Map(data);
-            this.options.isLoaded = true;
+            return this.loading.run(signal);
         } else {
             throw (Error("option load doesn't implemented"))
         }
     }
+    private async fetch(signal: AbortSignal) {
+        const load = this.options.load!;
+        const { data } = await chunkLimiter.run(() => load({ ...this.options, signal }), signal);
+        this.setData(data);
+        this.options.isLoaded = true;
+        chunkCache.add(this, sizeOf(data));
+    }
     public getIndices(token: string, operator: string): T[] | undefined {
         return this.indices.get(token);
     }
-    public async preFilter(tokens: string[], { operator = '$eq' }: Partial<IFindOptions> = {}): Promise<Map<T, number>> {
+    public async preFilter(tokens: string[], { operator = '$eq', scores, signal }: Partial<IFindOptions> = {}): Promise<Map<T, number>> {
         const countResults: Map<T, number> = new Map();
-        await this.load();
-        tokens.forEach((token) => {
-            const indices = this.getIndices(token, operator);
-            if (indices) {
-                indices.forEach((id) => {
-                    const count = countResults.get(id) || 0;
-                    countResults.set(id, count + 1);
-                });
-            }
+        chunkCache.acquire(this);
+        try {
+            await this.load(signal);
+            tokens.forEach((token) => {
+                const indices = this.getIndices(token, operator);
+                if (indices) {
+                    indices.forEach((id) => {
+                        const count = countResults.get(id) || 0;
+                        countResults.set(id, count + 1);
+                    });
+                    if (scores) {
+                        this.score(token, indices, scores);
+                    }
+                }
+            });
+            return countResults;
+        } finally {
+            chunkCache.release(this);
+        }
+    }
+    private score(token: string, indices: T[], scores: Map<unknown, number>) {
+        const { docCount, avgDocLength } = this.stats;
+        const df = this.docFreq.get(token) ?? new Set(indices).size;
+        const idf = Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+        const frequencies = indices.reduce((sum, id) => sum.set(id, (sum.get(id) || 0) + 1), new Map<T, number>());
+        frequencies.forEach((tf, id) => {
+            const length = this.docLength.get(id) || avgDocLength;
+            const norm = 1 - BM25_B + (BM25_B * length) / (avgDocLength || 1);
+            const weight = (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm);
+            scores.set(id, (scores.get(id) || 0) + weight);
         });
-        return countResults;
     }
-    async find(value?: string | string[], { operator = '$eq' }: Partial<IFindOptions> = {}): Promise<T[]> {
+    private sortByScore(ids: T[], scores?: Map<unknown, number>): T[] {
+        if (scores) {
+            ids.sort((a, b) => (scores.get(b) || 0) - (scores.get(a) || 0));
+        }
+        return ids;
+    }
+    async find(value?: string | string[], { operator = '$eq', scores, signal }: Partial<IFindOptions> = {}): Promise<T[]> {
         let tokens: string[] = []
         if (value !== undefined) {
             tokens = Array.isArray(value) ? value.flatMap(v => this.tokenizr(v)) : this.tokenizr(value);
         }
-        const preResult = await this.preFilter(tokens, { operator });
-        return this.postFilter(preResult, tokens);
+        const preResult = await this.preFilter(tokens, { operator, scores, signal });
+        return this.sortByScore(this.postFilter(preResult, tokens), scores);
     }
     public postFilter(countResults: Map<T, number>, tokens: string[]): T[] {
         const { actuationLimitAuto, actuationLimit } = this.options;
@@ -139,12 +288,17 @@ export class NgramIndice<T> implements ISpreadIndice<T, string>{
         }
         const index = new NgramIndice<T>(options);
         if (!!data) {
-            index.indices = data;
+            if (data instanceof Map) {
+                index.indices = data;
+            } else {
+                index.setData(data);
+            }
         }
         return index;
     }
     public spread(chunkSize: number = CHUNK_SIZE_DEFAULT): ISpreadIndice<T, string>[] {
-        const { id, ...options } = this.options;
+        const { id, ...rest } = this.options;
+        const options = { ...rest, stats: this.stats };
         const result: ISpreadIndice<T, string>[] = [];
         let size = 0;
         let map = new Map<string, T[]>();
@@ -156,8 +310,8 @@ export class NgramIndice<T> implements ISpreadIndice<T, string>{
             } else {
                 while (value.length) {
                     map.set(key, value.splice(0, chunkSize - size));
-                    result.push(NgramIndice.deserialize<T, string>(
-                        map,
+                    result.push((this.constructor as typeof NgramIndice).deserialize<T, string>(
+                        this.entries(map),
                         options
                     ));
                     size = 0;
@@ -166,16 +320,16 @@ export class NgramIndice<T> implements ISpreadIndice<T, string>{
             }
         })
         if (size != 0) {
-            result.push(NgramIndice.deserialize<T, string>(
-                map,
+            result.push((this.constructor as typeof NgramIndice).deserialize<T, string>(
+                this.entries(map),
                 options
             ))
         }
         return result;
     }
-    public async findAll(indices: ISpreadIndice<T, string>[], value: string, { operator = '$eq' }: Partial<IFindOptions> = {}): Promise<T[]> {
+    public async findAll(indices: ISpreadIndice<T, string>[], value: string, { operator = '$eq', scores, signal }: Partial<IFindOptions> = {}): Promise<T[]> {
         const tokens = Array.isArray(value) ? value.flatMap(v => this.tokenizr(v)) : this.tokenizr(value);
-        const list = await Promise.all(indices.map((indice) => indice.preFilter(tokens, { operator })));
+        const list = await Promise.all(indices.map((indice) => indice.preFilter(tokens, { operator, scores, signal })));
         const combineWeights = list.reduce((sum, weights) => {
             weights.forEach((value, key) => {
                 const count = sum.get(key) || 0
@@ -183,39 +337,27 @@ export class NgramIndice<T> implements ISpreadIndice<T, string>{
             })
             return sum;
         }, new Map())
-        return this.postFilter(combineWeights, tokens);
+        return this.sortByScore(this.postFilter(combineWeights, tokens), scores);
     }
-    public cursorAll(indices: ISpreadIndice<T, string>[], value: string | string[], { operator = '$eq', chunkSize = 20 }: Partial<IFindOptions> = {}): AsyncIterable<T[]> {
+    public cursorAll(indices: ISpreadIndice<T, string>[], value: string | string[], { operator = '$eq', chunkSize = 20, scores, signal, position }: Partial<IFindOptions> = {}): AsyncIterable<T[]> {
         const tokens = Array.isArray(value) ? value.flatMap(v => this.tokenizr(v)) : this.tokenizr(value);
-
-        let count = indices.length;
-        const $promises = indices.map((indice) => indice.preFilter(tokens, { operator }))
-            .map(($subResult, index) => {
-                return $subResult.then(result => ({
-                    index,
-                    result,
-                }));
-            });
+        // the chunks load in parallel and are read in order, so the results and their offsets are stable
+        const $promises = indices.map((indice) => indice.preFilter(tokens, { operator, scores, signal }));
+        $promises.forEach(($subResult) => $subResult.catch(() => undefined));
+        let index = 0;
 
         let { postFilter } = this;
         postFilter = postFilter.bind(this)
         let subResult: T[] = [];
+        let skip = position?.offset || 0;
         const combineWeights: Map<T, number> = new Map();
-        const never: Promise<{
-            index: number;
-            result: Map<T, number>;
-        }> = new Promise(() => {
-            // do nothing.
-        });
         return {
             [Symbol.asyncIterator]() {
                 return {
                     async next() {
                         subResult = [];
-                        while (count > 0) {
-                            const { index, result: res } = await Promise.race($promises);
-                            count--;
-                            $promises[index] = never;
+                        while (index < $promises.length) {
+                            const res = await $promises[index++];
                             res
                                 .forEach((weight, key) => {
                                     const value = combineWeights.get(key) || 0;
@@ -227,7 +369,13 @@ export class NgramIndice<T> implements ISpreadIndice<T, string>{
                                     return r;
                                 });
                             subResult.reverse();
+                            const skipped = Math.min(skip, subResult.length);
+                            subResult = subResult.slice(skipped);
+                            skip -= skipped;
                             if (subResult.length) {
+                                if (position) {
+                                    position.offset += subResult.length;
+                                }
                                 return { done: false, value: subResult };
                             }
                         }
@@ -0,0 +1,180 @@
+import { ISharedIndice, ISpreadIndice } from "./interfaces";
+import { IEncoding, decompress as decompressData, extensions } from "./compression";
+import { IFormat, decodeChunk } from "./codec";
+import { IStorage } from "./storage";
+import { ChunkLoadError, QueryAbortedError } from "./errors";
+import { sleep } from "./abort";
+import { parseKeys } from "./keys";
+
+export interface IManifest {
+    data: [any, any][];
+    options: any;
+    encoding?: IEncoding;
+    format?: IFormat;
+    /**
+     * Format of every chunk when it differs from `format`, binary indices fall back to json per chunk.
+     */
+    formats?: Record<string, IFormat>;
+    version?: string;
+    files?: Record<string, string>;
+}
+export interface IRootPointer {
+    manifest: string;
+    encoding?: IEncoding;
+    version: string;
+}
+export interface IRetryOptions {
+    /**
+     * Milliseconds per attempt, `0` waits forever.
+     */
+    timeout: number;
+    retries: number;
+    /**
+     * Delay before the first retry in milliseconds, doubled on every next one.
+     */
+    backoff: number;
+}
+export interface ILoaderOptions extends IRetryOptions {
+    encoding?: IEncoding;
+    decompress(data: Uint8Array, encoding?: IEncoding): Promise<Uint8Array>;
+}
+const DEFAULT_RETRY: IRetryOptions = { timeout: 0, retries: 0, backoff: 100 };
+
+/**
+ * Runs the read with a timeout per attempt and retries failed attempts with exponential backoff.
+ */
+export const retry = async <R>(
+    path: string,
+    read: (signal?: AbortSignal) => Promise<R>,
+    { timeout, retries, backoff }: IRetryOptions = DEFAULT_RETRY,
+    signal?: AbortSignal
+): Promise<R> => {
+    for (let attempt = 0; ; attempt++) {
+        if (signal?.aborted) {
+            throw new QueryAbortedError();
+        }
+        const controller = timeout || signal ? new AbortController() : undefined;
+        const abort = () => controller!.abort();
+        const timer = timeout ? setTimeout(abort, timeout) : undefined;
+        signal?.addEventListener('abort', abort, { once: true });
+        try {
+            return await read(controller?.signal);
+        } catch (e) {
+            if (signal?.aborted) {
+                throw new QueryAbortedError();
+            }
+            if (attempt >= retries) {
+                throw new ChunkLoadError(path, e, attempt + 1);
+            }
+        } finally {
+            clearTimeout(timer!);
+            signal?.removeEventListener('abort', abort);
+        }
+        await sleep(backoff * 2 ** attempt, signal);
+    }
+}
+
+const manifestEncoding = async (storage: IStorage, dir: string): Promise<IEncoding | undefined> => {
+    const files = await storage.list(dir).catch((): string[] => []);
+    if (!files.length || files.includes('index.json')) {
+        return undefined;
+    }
+    const encoding = (Object.keys(extensions) as IEncoding[]).find((encoding) => files.includes(`index.json${extensions[encoding]}`));
+    if (!encoding) {
+        throw (Error(`manifest ${dir}/index.json doesn't exist`))
+    }
+    return encoding;
+}
+
+/**
+ * Reads the manifest, chunks and pages of the indice `id`, the files are resolved
+ * through the manifest, so the loaders have to be called after `manifest`.
+ */
+export const loader = (
+    storage: IStorage,
+    id: string,
+    {
+        encoding: rootEncoding,
+        decompress = decompressData,
+        timeout = DEFAULT_RETRY.timeout,
+        retries = DEFAULT_RETRY.retries,
+        backoff = DEFAULT_RETRY.backoff,
+    }: Partial<ILoaderOptions> = {}
+) => {
+    let encoding: IEncoding | undefined;
+    let format: IFormat | undefined;
+    let formats: Record<string, IFormat> = {};
+    let files: Record<string, string> | undefined;
+    const resolve = (name: string, extension = '.json') => files ? files[name] : `${name}${extension}`;
+    const read = async (file: string, encoding?: IEncoding, signal?: AbortSignal) => {
+        const path = `${id}/${file}${encoding ? extensions[encoding] : ''}`;
+        return decompress(await retry(path, (signal) => storage.read(path, { signal }), { timeout, retries, backoff }, signal), encoding);
+    }
+    const readJson = async (file: string, encoding?: IEncoding, signal?: AbortSignal) => {
+        return parseKeys(new TextDecoder().decode(await read(file, encoding, signal)));
+    }
+    const manifest = async (signal?: AbortSignal): Promise<{ root: IManifest | IRootPointer, json: IManifest }> => {
+        const root: IManifest | IRootPointer = await readJson('index.json', rootEncoding || await manifestEncoding(storage, id), signal);
+        const json: IManifest = 'manifest' in root ? await readJson(root.manifest, root.encoding, signal) : root;
+        encoding = json.encoding;
+        format = json.format;
+        formats = json.formats || {};
+        files = json.files;
+        return { root, json };
+    }
+    const loadChunk = async (options: { id: unknown, group?: string, signal?: AbortSignal }) => {
+        if ((formats[`${options.id}`] || format) === 'binary' && !options.group) {
+            return { data: decodeChunk(await read(resolve(`chunk_${options.id}`, '.bin'), encoding, options.signal)), options: { id: options.id } };
+        }
+        const name = options.group ? `${options.id}.${options.group}` : options.id;
+        return readJson(resolve(`chunk_${name}`), encoding, options.signal);
+    }
+    const loadPage = async (options: { id: string, signal?: AbortSignal }) => {
+        return readJson(resolve(`page_${options.id}`), encoding, options.signal);
+    }
+    return { manifest, loadChunk, loadPage };
+}
+
+export const restoreSharedIndices = async <T, P>(
+    storage: IStorage,
+    id: string,
+    deserializeShared: (
+        data: any,
+        options: any,
+        deserialize: (data: any, options?: any) => ISpreadIndice<T, P>,
+        loadPage: (options: { id: string }) => Promise<any>) => ISharedIndice<T, P>,
+    deserialize: (
+        data: any,
+        options?: any
+    ) => ISpreadIndice<T, any>,
+    options: Partial<ILoaderOptions> = {}
+): Promise<ISharedIndice<T, P>> => {
+    const { manifest, loadChunk, loadPage } = loader(storage, id, options);
+    const { json } = await manifest();
+    return deserializeShared(
+        json.data,
+        json.options,
+        (options) => deserialize({ ...options, load: loadChunk }),
+        loadPage);
+}
+
+export const restoreLazySharedIndices = <T, P>(
+    storage: IStorage,
+    id: string,
+    deserializeShared: (
+        options: {
+            id: string,
+            load(options: Record<string, unknown>): Promise<any>,
+            loadPage(options: { id: string }): Promise<any>
+        },
+        deserialize: (data: any, options?: Record<string, unknown>) => ISpreadIndice<T, P>) => ISharedIndice<T, P>,
+    deserialize: (
+        options: Record<string, unknown>
+    ) => ISpreadIndice<T, P>,
+    options: Partial<ILoaderOptions> = {}
+): ISharedIndice<T, P> => {
+    const { manifest, loadChunk, loadPage } = loader(storage, id, options);
+    return deserializeShared(
+        { id, load: async ({ signal }) => (await manifest(signal as AbortSignal | undefined)).json, loadPage },
+        (options) => deserialize({ ...options, load: loadChunk }));
+}
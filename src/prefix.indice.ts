@@ -0,0 +1,293 @@
+import { IFindOptions, ISpreadIndice } from "./interfaces"
+import { chunkCache, sizeOf } from "./cache";
+import { chunkLimiter } from "./limiter";
+import { SharedTask } from "./abort";
+const CHUNK_SIZE_DEFAULT = 100;
+const LIMIT_DEFAULT = 10;
+interface IOptions extends Record<string, unknown> {
+    id?: string;
+    toLowcase: boolean;
+    limit: number;
+    isLoaded: boolean;
+    load?(options: IOptions & { signal?: AbortSignal }): Promise<never>;
+}
+export interface IPrefixValue {
+    value: string | string[];
+    weight?: number;
+}
+let id_counter = 1;
+
+/**
+ * Completion indice. Terms are kept sorted, so the terms sharing a prefix form one
+ * contiguous slice (a flattened trie) that is found by binary search.
+ * A value is stored from each of its words, so a query completes any word of it.
+ */
+export class PrefixIndice<T> implements ISpreadIndice<T, string>{
+    public indices: Map<string, T[]> = new Map();
+    public weights: Map<string, number[]> = new Map();
+    public options: IOptions;
+    private sortedKeys?: string[];
+    private loading = new SharedTask((signal) => this.fetch(signal));
+    get keys() {
+        if (!this.sortedKeys) {
+            const keys = [...this.indices.keys()];
+            keys.sort((a, b) => {
+                if (a === b) {
+                    return 0;
+                }
+                return a < b ? -1 : 1;
+            })
+            this.sortedKeys = keys;
+        }
+        return [...this.sortedKeys];
+    }
+    public get id(): string {
+        return this.options.id!;
+    }
+    constructor({
+        id = `${id_counter++}`,
+        toLowcase = true,
+        limit = LIMIT_DEFAULT,
+        isLoaded = true,
+        load
+    }: Partial<IOptions> = {}) {
+        this.options = {
+            toLowcase,
+            limit,
+            isLoaded,
+            id,
+            load
+        };
+        return this;
+    }
+    /**
+     * The ids are ranked by the weight of their value, `{ value, weight }`, 1 by default.
+     */
+    add(key: T, value: string | string[] | IPrefixValue): void {
+        this.addTokens(key, [...new Set(this.tokenizr(value))], value);
+    }
+    addTokens(key: T, tokens: string[], value?: string | string[] | IPrefixValue): void {
+        const { weight = 1 } = typeof value === 'object' && !Array.isArray(value) ? value : {};
+        tokens.forEach((token) => {
+            this.indices.set(token, [...(this.indices.get(token) || []), key]);
+            this.weights.set(token, [...(this.weights.get(token) || []), weight]);
+        });
+        this.sortedKeys = undefined;
+    }
+    removeTokens(key: T, tokens: string[]): void {
+        new Set(tokens).forEach((token) => {
+            const ids = this.indices.get(token) || [];
+            const weights = this.weights.get(token) || [];
+            const index = ids.filter((id) => id !== key);
+            if (index.length === ids.length) {
+                return;
+            }
+            if (index.length) {
+                this.indices.set(token, index);
+                this.weights.set(token, weights.filter((_, i) => ids[i] !== key));
+            } else {
+                this.indices.delete(token);
+                this.weights.delete(token);
+            }
+        });
+        this.sortedKeys = undefined;
+    }
+    serializeOptions(): IOptions {
+        const { load, ...options } = this.options;
+        return options;
+    }
+    serializeData(): any[] {
+        return this.keys.map((key) => [key, this.indices.get(key), this.weights.get(key)]);
+    }
+    /**
+     * Terms stored for a value: the value itself and its tail from each next word.
+     */
+    tokenizr(value: string | string[] | IPrefixValue): string[] {
+        if (typeof value === 'object') {
+            const values = Array.isArray(value) ? value : [value.value].flat();
+            return values.flatMap((v) => this.tokenizr(v));
+        }
+        const [term] = this.queryTokenizr(value);
+        const result = [term];
+        for (let i = term.indexOf(' '); i !== -1; i = term.indexOf(' ', i + 1)) {
+            const tail = term.slice(i + 1).trimStart();
+            if (tail && tail !== result[result.length - 1]) {
+                result.push(tail);
+            }
+        }
+        return result;
+    }
+    /**
+     * A query is one prefix, its words aren't split.
+     */
+    queryTokenizr(value: string | string[]): string[] {
+        return (Array.isArray(value) ? value : [value]).map((v) => {
+            const term = v.trim();
+            return this.options.toLowcase ? term.toLowerCase() : term;
+        });
+    }
+    private setData(data: [string, T[], number[] | number][]) {
+        this.indices = new Map(data.map(([key, ids]) => [key, ids]));
+        // chunks saved before the weights were kept by id have one weight per term
+        this.weights = new Map(data.map(([key, ids, weights]) => [key, Array.isArray(weights) ? weights : ids.map(() => weights)]));
+        this.sortedKeys = undefined;
+    }
+    public unload() {
+        if (this.options.load) {
+            this.setData([]);
+            this.options.isLoaded = false;
+        }
+    }
+    public async load(signal?: AbortSignal) {
+        if (this.options.isLoaded) {
+            chunkCache.hit(this);
+            return;
+        } else if (this.options.load) {
+            return this.loading.run(signal);
+        } else {
+            throw (Error("option load doesn't implemented"))
+        }
+    }
+    private async fetch(signal: AbortSignal) {
+        const load = this.options.load!;
+        const { data } = await chunkLimiter.run(() => load({ ...this.options, signal }), signal);
+        this.setData(data);
+        this.options.isLoaded = true;
+        chunkCache.add(this, sizeOf(data));
+    }
+    private lowerBound(keys: string[], token: string): number {
+        let low = 0;
+        let high = keys.length;
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            if (keys[middle] < token) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        return low;
+    }
+    public completions(prefix: string): string[] {
+        const keys = this.sortedKeys || this.keys;
+        const result: string[] = [];
+        for (let i = this.lowerBound(keys, prefix); i < keys.length && keys[i].startsWith(prefix); i++) {
+            result.push(keys[i]);
+        }
+        return result;
+    }
+    public async preFilter(tokens: string[], { signal }: Partial<IFindOptions> = {}): Promise<Map<T, number>> {
+        const weightResults: Map<T, number> = new Map();
+        chunkCache.acquire(this);
+        try {
+            await this.load(signal);
+            tokens.forEach((token) => {
+                this.completions(token).forEach((key) => {
+                    const weights = this.weights.get(key) || [];
+                    this.indices.get(key)!.forEach((id, i) => {
+                        weightResults.set(id, Math.max(weights[i] || 0, weightResults.get(id) || 0));
+                    });
+                });
+            });
+            return weightResults;
+        } finally {
+            chunkCache.release(this);
+        }
+    }
+    async find(value?: string | string[], { limit = this.options.limit, signal }: Partial<IFindOptions> = {}): Promise<T[]> {
+        const tokens = value !== undefined ? this.queryTokenizr(value) : [];
+        const preResult = await this.preFilter(tokens, { signal });
+        return this.postFilter(preResult, tokens).slice(0, limit);
+    }
+    public postFilter(weightResults: Map<T, number>, tokens: string[]): T[] {
+        const results = [...weightResults.entries()];
+        results.sort(([, a], [, b]) => b - a);
+        return results.map(([id]) => id);
+    }
+
+    serialize() {
+        return { data: this.serializeData(), options: this.serializeOptions() }
+    }
+    static deserialize<T, P>(data: any, options?: any) {
+        if (!options) {
+            options = data;
+            data = null;
+        }
+        const index = new PrefixIndice<T>(options);
+        if (!!data) {
+            index.setData(data);
+        }
+        return index;
+    }
+    public spread(chunkSize: number = CHUNK_SIZE_DEFAULT): ISpreadIndice<T, string>[] {
+        const { id, ...options } = this.options;
+        const result: ISpreadIndice<T, string>[] = [];
+        let size = 0;
+        let data: [string, T[], number[]][] = [];
+        this.keys.forEach((key) => {
+            const value = [...this.indices.get(key)!];
+            const weights = [...(this.weights.get(key) || [])];
+            if (size + value.length <= chunkSize) {
+                size = size + value.length;
+                data.push([key, value, weights]);
+            } else {
+                while (value.length) {
+                    const count = chunkSize - size;
+                    data.push([key, value.splice(0, count), weights.splice(0, count)]);
+                    result.push(PrefixIndice.deserialize<T, string>(
+                        data,
+                        options
+                    ));
+                    size = 0;
+                    data = [];
+                }
+            }
+        })
+        if (size != 0) {
+            result.push(PrefixIndice.deserialize<T, string>(
+                data,
+                options
+            ))
+        }
+        return result;
+    }
+    private combine(list: Map<T, number>[]): Map<T, number> {
+        return list.reduce((sum, weights) => {
+            weights.forEach((value, key) => {
+                sum.set(key, Math.max(value, sum.get(key) || 0));
+            })
+            return sum;
+        }, new Map<T, number>());
+    }
+    public async findAll(indices: ISpreadIndice<T, string>[], value: string | string[], { limit = this.options.limit, signal }: Partial<IFindOptions> = {}): Promise<T[]> {
+        const tokens = this.queryTokenizr(value);
+        const list = await Promise.all(indices.map((indice) => indice.preFilter(tokens, { signal })));
+        return this.postFilter(this.combine(list), tokens).slice(0, limit);
+    }
+    public cursorAll(indices: ISpreadIndice<T, string>[], value: string | string[], { chunkSize = 20, signal, position }: Partial<IFindOptions> = {}): AsyncIterable<T[]> {
+        const tokens = this.queryTokenizr(value);
+        const postFilter = this.postFilter.bind(this);
+        const combine = this.combine.bind(this);
+        let result: T[] | null = null;
+        return {
+            [Symbol.asyncIterator]() {
+                return {
+                    async next() {
+                        if (!result) {
+                            const list = await Promise.all(indices.map((indice) => indice.preFilter(tokens, { signal })));
+                            result = postFilter(combine(list), tokens).slice(position?.offset || 0);
+                        }
+                        if (result.length) {
+                            const value = result.splice(0, chunkSize || result.length);
+                            if (position) {
+                                position.offset += value.length;
+                            }
+                            return { done: false, value };
+                        }
+                        return { done: true, value: undefined };
+                    }
+                }
+            }
+        }
+    }
+}
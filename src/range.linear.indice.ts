@@ -1,5 +1,7 @@
-import { IFindOptions, ISharedIndice, ISpreadIndice } from "./interfaces";
+import { IFindOptions, IIndiceChanges, IIndiceUpdate, ISharedIndice, ISpreadIndice } from "./interfaces";
 import { Range } from "./range";
+import { SharedTask } from "./abort";
+import { compareKeys } from "./keys";
 const DEFAULT_CHUNK_ZIZE = 2000;
 
 interface IOptions<T, P> {
@@ -14,11 +16,22 @@ interface ISerializeOptions<T, P> extends Record<string, unknown> {
     self: IOptions<T, P>;
     spread?: any;
 }
+interface IChunk<T, P> {
+    range: Range<P>;
+    indice: ISpreadIndice<T, P>;
+    origin?: ISpreadIndice<T, P>;
+}
+/**
+ * A chunk row: the key, its ids and the fields the indice keeps next to them.
+ */
+type IChunkRow<T, P> = [P, T[], ...unknown[]];
+type IChunkDeserialize<T, P> = (data: IChunkRow<T, P>[], options: Record<string, unknown>) => ISpreadIndice<T, P>;
 let id_counter = 1;
 export class RangeLinearIndice<T, P> implements ISharedIndice<T, P> {
     public indices: Map<Range<P>, ISpreadIndice<T, P>> = new Map();
     private indice?: ISpreadIndice<T, P>;
     private indiceDeserialize?: (options: Record<string, unknown>) => ISpreadIndice<T, P>
+    private loading = new SharedTask((signal) => this.fetch(signal));
     public options: IOptions<T, P>;
     public get id() {
         return this.options.id!;
@@ -28,7 +41,7 @@ export class RangeLinearIndice<T, P> implements ISharedIndice<T, P> {
             this.indice = indice;
             this.indices = new Map(indice.spread(chunkSize).map((indice) => [Range.fromKeys<P>(indice.keys), indice]))
         }
-        this.options = { id, isLoaded, load };
+        this.options = { chunkSize, id, isLoaded, load };
     }
     serialize(): { data: unknown, options: Record<string, unknown> } {
         return { data: this.serializeData(), options: this.serializeOptions() };
@@ -76,37 +89,51 @@ export class RangeLinearIndice<T, P> implements ISharedIndice<T, P> {
     private filterIndicesByWeight(weight: number, tokens: P[]) {
         return !!weight || !tokens.length
     }
-    private async load() {
+    private async load(signal?: AbortSignal) {
         if (this.options.isLoaded) {
             return;
         } else if (this.options.load) {
             if (!this.indiceDeserialize) {
                 throw (Error("deserialzed doesn't set"))
             }
-            const { data, options }: {
-                data: [[P, P], T][],
-                options: ISerializeOptions<T, P>
-            } = await this.options.load(this.options);
-            const indices = new Map(data.map(([[left, right], id]) => {
-                return [new Range(left, right), this.indiceDeserialize!({ ...options.spread, id })]
-            }));
-            this.indices = indices;
-            this.indice = this.indiceDeserialize({ ...options.spread })
-            this.options.isLoaded = true;
+            return this.loading.run(signal);
         } else {
             throw (Error("option load doesn't implemented"))
         }
     }
-    async find(value?: P | P[], { operator = '$eq', sort = 1 }: Partial<IFindOptions> = {}): Promise<T[]> {
-        await this.load();
+    private async fetch(signal: AbortSignal) {
+        const load = this.options.load!;
+        const deserialize = this.indiceDeserialize!;
+        const { data, options }: {
+            data: [[P, P], T][],
+            options: ISerializeOptions<T, P>
+        } = await load({ ...this.options, signal });
+        const indices = new Map(data.map(([[left, right], id]) => {
+            return [new Range(left, right), deserialize({ ...options.spread, id })]
+        }));
+        this.indices = indices;
+        this.indice = deserialize({ ...options.spread })
+        this.options.isLoaded = true;
+    }
+    /**
+     * Loads the chunks a query would read, without running it.
+     */
+    async prefetch(value?: P | P[], { operator = '$eq', sort = 1, signal }: Partial<IFindOptions> = {}): Promise<void> {
+        await this.load(signal);
+        await Promise.all(this.filterIndices(this.tokens(value), operator, sort).map((indice) => indice.load?.(signal)));
+    }
+    private tokens(value?: P | P[], query = true): P[] {
         const { indice } = this;
         if (!indice) {
             throw new Error("Spread indice doesn't initialized")
         }
-        let tokens: P[] = []
-        if (value !== undefined) {
-            tokens = Array.isArray(value) ? value.flatMap(v => indice.tokenizr(v)) : indice.tokenizr(value);
+        if (value === undefined) {
+            return [];
         }
+        const tokenizr = (v: P) => query && indice.queryTokenizr ? indice.queryTokenizr(v) : indice.tokenizr(v);
+        return Array.isArray(value) ? value.flatMap(tokenizr) : tokenizr(value);
+    }
+    private filterIndices(tokens: P[], operator: string, sort: 1 | -1): ISpreadIndice<T, P>[] {
         const indices = [...this.indices].map<[number, ISpreadIndice<T, P>]>(([filter, indice]) => {
             const weight = tokens.reduce((w, token) => filter.test(token, operator) ? 1 + w : w, 0);
             return [weight, indice];
@@ -115,34 +142,170 @@ export class RangeLinearIndice<T, P> implements ISharedIndice<T, P> {
         if (sort === -1) {
             indices.reverse();
         }
-        return indice.findAll(indices, value, { operator, sort });
+        return indices;
+    }
+    async find(value?: P | P[], { operator = '$eq', sort = 1, scores, limit, fields, signal }: Partial<IFindOptions> = {}): Promise<T[]> {
+        await this.load(signal);
+        const indices = this.filterIndices(this.tokens(value), operator, sort);
+        return this.indice!.findAll(indices, value, { operator, sort, scores, limit, fields, signal });
+    }
+    async distinct(value?: P | P[], { operator = '$eq', sort = 1, signal }: Partial<IFindOptions> = {}): Promise<Map<P, T[]>> {
+        await this.load(signal);
+        const tokens = this.tokens(value);
+        const list = await Promise.all(this.filterIndices(tokens, operator, sort).map((indice) => {
+            if (!indice.distinct) {
+                throw (Error("distinct doesn't implemented"))
+            }
+            return indice.distinct(tokens, { operator, sort, signal });
+        }));
+        return list.reduce((sum, keys) => {
+            keys.forEach((ids, key) => sum.set(key, [...(sum.get(key) || []), ...ids]));
+            return sum;
+        }, new Map<P, T[]>());
+    }
+    private size(indice: ISpreadIndice<T, P>): number {
+        return (indice.serializeData() as [P, T[]][]).reduce((sum, [, ids]) => sum + ids.length, 0);
+    }
+    private rebuild(indice: ISpreadIndice<T, P>, data: IChunkRow<T, P>[], id: string): ISpreadIndice<T, P> {
+        return (indice.constructor as unknown as { deserialize: IChunkDeserialize<T, P> })
+            .deserialize(data, { ...indice.serializeOptions(), id, isLoaded: true });
+    }
+    private async edit(chunk: IChunk<T, P>, id: () => string): Promise<ISpreadIndice<T, P>> {
+        if (chunk.origin) {
+            return chunk.indice;
+        }
+        const { indice } = chunk;
+        if (!indice.load || !indice.addTokens || !indice.removeTokens) {
+            throw (Error("update doesn't implemented"))
+        }
+        await indice.load();
+        const data = (indice.serializeData() as IChunkRow<T, P>[]).map<IChunkRow<T, P>>(([key, ids, ...fields]) => [key, [...ids], ...fields]);
+        chunk.origin = indice;
+        chunk.indice = this.rebuild(indice, data, id());
+        return chunk.indice;
+    }
+    /**
+     * The lists following the ids are split with them, the other fields are repeated.
+     */
+    private split(indice: ISpreadIndice<T, P>, limit: number, id: () => string): ISpreadIndice<T, P>[] {
+        const result: IChunkRow<T, P>[][] = [[]];
+        const data = [...indice.serializeData() as IChunkRow<T, P>[]].sort(([a], [b]) => compareKeys(a, b));
+        let size = 0;
+        data.forEach(([key, ids, ...fields]) => {
+            for (let start = 0, end = 0; start < ids.length; start = end) {
+                if (size === limit) {
+                    result.push([]);
+                    size = 0;
+                }
+                end = Math.min(ids.length, start + limit - size);
+                const part = fields.map((field) => Array.isArray(field) ? field.slice(start, end) : field);
+                result[result.length - 1].push([key, ids.slice(start, end), ...part]);
+                size += end - start;
+            }
+        });
+        return result.map((data) => this.rebuild(indice, data, id()));
+    }
+    /**
+     * A key split between both chunks keeps its fields once, its ids and the lists following them are joined.
+     */
+    private merge(indice: ISpreadIndice<T, P>, next: ISpreadIndice<T, P>): ISpreadIndice<T, P> {
+        const data = indice.serializeData() as IChunkRow<T, P>[];
+        const [left] = next.keys;
+        (next.serializeData() as IChunkRow<T, P>[]).forEach((row) => {
+            const index = compareKeys(row[0], left) === 0 ? data.findIndex(([key]) => compareKeys(key, left) === 0) : -1;
+            if (index < 0) {
+                data.push(row);
+            } else {
+                data[index] = data[index].map((field, i) => Array.isArray(field) ? [...field, ...row[i] as unknown[]] : field) as IChunkRow<T, P>;
+            }
+        });
+        return this.rebuild(indice, data, indice.id);
     }
-    cursor(value?: P | P[], { operator = '$eq', sort = 1 }: Partial<IFindOptions> = {}): AsyncIterable<T[]> {
-        const load$ = this.load();
+    /**
+     * Applies the changes to the chunks whose ranges hold the changed keys only, the edited
+     * chunks get new ids, so unchanged chunk files stay valid. Chunks larger than `chunkSize`
+     * are split evenly, chunks smaller than a quarter of it are merged into the previous one.
+     * The chunks have to implement `addTokens` and `removeTokens`, `FuzzyIndice` doesn't.
+     */
+    async update({ add = [], remove = [] }: IIndiceChanges<T, P>): Promise<IIndiceUpdate<T, P>> {
+        await this.load();
+        if (!this.indice) {
+            throw new Error("Spread indice doesn't initialized")
+        }
+        if (!this.indice.addTokens || !this.indice.removeTokens) {
+            throw (Error("update doesn't implemented"))
+        }
+        const chunkSize = this.options.chunkSize || DEFAULT_CHUNK_ZIZE;
+        const ids = new Set([...this.indices.values()].map((indice) => indice.id));
+        let counter = Math.max(0, ...[...ids].map(Number).filter(Number.isFinite));
+        const id = () => {
+            while (ids.has(`${++counter}`));
+            ids.add(`${counter}`);
+            return `${counter}`;
+        };
+        const chunks: IChunk<T, P>[] = [...this.indices].map(([range, indice]) => ({ range, indice }));
+        for (const [key, value] of remove) {
+            for (const token of this.tokens(value, false)) {
+                for (const chunk of chunks.filter(({ range }) => range.has(token))) {
+                    (await this.edit(chunk, id)).removeTokens!(key, [token]);
+                }
+            }
+        }
+        for (const [key, value] of add) {
+            for (const token of this.tokens(value, false)) {
+                if (!chunks.length) {
+                    const { deserialize } = this.indice.constructor as unknown as { deserialize: IChunkDeserialize<T, P> };
+                    const indice = deserialize([], { ...this.indice.serializeOptions(), id: id(), isLoaded: true });
+                    chunks.push({ range: new Range(token, token), indice, origin: indice });
+                }
+                const index = chunks.reduce((found, { range }, i) => compareKeys(range.left, token) <= 0 ? i : found, 0);
+                (await this.edit(chunks[index], id)).addTokens!(key, [token], value);
+            }
+        }
+        const result: IChunk<T, P>[] = [];
+        for (const chunk of chunks) {
+            if (!chunk.origin) {
+                result.push(chunk);
+                continue;
+            }
+            const size = this.size(chunk.indice);
+            const previous = result[result.length - 1];
+            if (!size) {
+                continue;
+            } else if (size > chunkSize) {
+                this.split(chunk.indice, Math.ceil(size / Math.ceil(size / chunkSize)), id).forEach((indice) => {
+                    result.push({ range: Range.fromKeys<P>(indice.keys), indice, origin: chunk.origin });
+                });
+                continue;
+            } else if (previous && size < chunkSize / 4) {
+                await previous.indice.load?.();
+                if (this.size(previous.indice) + size <= chunkSize) {
+                    previous.indice = this.merge(await this.edit(previous, id), chunk.indice);
+                    previous.range = Range.fromKeys<P>(previous.indice.keys);
+                    continue;
+                }
+            }
+            chunk.range = Range.fromKeys<P>(chunk.indice.keys);
+            result.push(chunk);
+        }
+        this.indices = new Map(result.map(({ range, indice }) => [range, indice]));
+        return {
+            added: result.filter(({ origin }) => origin).map(({ indice }) => indice),
+            removed: chunks.filter(({ origin, indice }) => origin && origin !== indice).map(({ origin }) => origin!),
+        };
+    }
+    cursor(value?: P | P[], { operator = '$eq', sort = 1, scores, fields, signal, position }: Partial<IFindOptions> = {}): AsyncIterable<T[]> {
+        const load$ = this.load(signal);
+        load$.catch(() => undefined);
         let cursor;
         let iterator;
         let isFound = false;
         const find = async () => {
-            const { indice, indices } = this;
             if (isFound) {
                 return;
             }
-            if (!indice) {
-                throw new Error("Spread indice doesn't initialized")
-            }
-            let tokens: P[] = []
-            if (value !== undefined) {
-                tokens = Array.isArray(value) ? value.flatMap(v => indice.tokenizr(v)) : indice.tokenizr(value);
-            }
-            const filteredIndices = [...indices].map<[number, ISpreadIndice<T, P>]>(([filter, indice]) => {
-                const weight = tokens.reduce((w, token) => filter.test(token, operator) ? 1 + w : w, 0);
-                return [weight, indice];
-            }).filter(([weight]) => this.filterIndicesByWeight(weight, tokens))
-                .map(([_, indice]) => indice);
-            if (sort === -1) {
-                filteredIndices.reverse();
-            }
-            cursor = indice.cursorAll(filteredIndices, value, { operator, sort })
+            const filteredIndices = this.filterIndices(this.tokens(value), operator, sort);
+            cursor = this.indice!.cursorAll(filteredIndices, value, { operator, sort, scores, fields, signal, position })
             isFound = true;
             iterator = cursor[Symbol.asyncIterator]()
 
@@ -0,0 +1,322 @@
+import { IFindOptions, IKeyRange, ISharedIndice, ISpreadIndice } from "./interfaces";
+import { Range, regexPrefix } from "./range";
+import { compareKeys } from "./keys";
+import { SharedTask, abortable } from "./abort";
+const DEFAULT_CHUNK_ZIZE = 2000;
+const DEFAULT_PAGE_SIZE = 64;
+
+type INode<P> = [[P, P], string];
+
+interface IOptions<T, P> {
+    chunkSize?: number;
+    pageSize: number;
+    height: number;
+    indice?: ISpreadIndice<T, P>;
+    id?: string;
+    isLoaded: boolean;
+    load?(options: unknown): Promise<any>;
+    loadPage?(options: { id: string }): Promise<any>;
+}
+
+interface ISerializeOptions<T, P> extends Record<string, unknown> {
+    self: IOptions<T, P>;
+    spread?: any;
+}
+let id_counter = 1;
+export class RangeTreeIndice<T, P> implements ISharedIndice<T, P> {
+    public indices: Map<Range<P>, ISpreadIndice<T, P>> = new Map();
+    private root: INode<P>[] = [];
+    private pages: Map<string, INode<P>[] | Promise<INode<P>[]>> = new Map();
+    private chunks: Map<string, ISpreadIndice<T, P>> = new Map();
+    private indice?: ISpreadIndice<T, P>;
+    private indiceDeserialize?: (options: Record<string, unknown>) => ISpreadIndice<T, P>
+    private spreadOptions: Record<string, unknown> = {};
+    private loading = new SharedTask((signal) => this.fetch(signal));
+    public options: IOptions<T, P>;
+    public get id() {
+        return this.options.id!;
+    }
+    constructor({
+        indice,
+        chunkSize = DEFAULT_CHUNK_ZIZE,
+        pageSize = DEFAULT_PAGE_SIZE,
+        height = 0,
+        id = `${id_counter++}`,
+        isLoaded = true,
+        load,
+        loadPage
+    }: Partial<IOptions<T, P>>) {
+        this.options = { id, pageSize, height, isLoaded, load, loadPage };
+        if (indice) {
+            this.indice = indice;
+            this.build(indice.spread(chunkSize));
+        }
+    }
+    private build(spread: ISpreadIndice<T, P>[]) {
+        const { pageSize } = this.options;
+        let level: INode<P>[] = spread.map((indice) => {
+            const range = Range.fromKeys<P>(indice.keys);
+            this.indices.set(range, indice);
+            this.chunks.set(indice.id, indice);
+            return [[range.left, range.right], indice.id];
+        });
+        let height = 0;
+        while (level.length > pageSize) {
+            const next: INode<P>[] = [];
+            for (let i = 0; i < level.length; i += pageSize) {
+                const page = level.slice(i, i + pageSize);
+                const pageId = `${height}_${next.length}`;
+                this.pages.set(pageId, page);
+                next.push([[page[0][0][0], page[page.length - 1][0][1]], pageId]);
+            }
+            height++;
+            level = next;
+        }
+        this.root = level;
+        this.options.height = height;
+    }
+    serialize(): { data: unknown, options: Record<string, unknown> } {
+        return { data: this.serializeData(), options: this.serializeOptions() };
+    }
+    serializeData() {
+        return this.root;
+    }
+    serializeOptions(): ISerializeOptions<T, P> {
+        const { load, loadPage, ...options } = this.options;
+        return { self: options, spread: { ...this.indice?.serializeOptions(), isLoaded: false } };
+    }
+    serializePages(): [string, unknown][] {
+        return [...this.pages].map(([id, page]) => [id, page]);
+    }
+    testIndice(key: string, value: any): boolean {
+        if (key !== '$regex') {
+            return true;
+        }
+        const source = value instanceof RegExp ? value.source : `${value}`;
+        return !!source.match(/\^[\w\d]+/);
+    }
+
+    static deserialize<T, P>(
+        data: INode<P>[],
+        options: ISerializeOptions<T, P>,
+        deserialize: (data: any, options?: any) => ISpreadIndice<T, P>,
+        loadPage?: (options: { id: string }) => Promise<any>
+    ): ISharedIndice<T, P> {
+        const indice = new RangeTreeIndice<T, P>({ ...options.self, loadPage });
+        indice.root = data;
+        indice.indiceDeserialize = deserialize;
+        indice.spreadOptions = options.spread;
+        indice.indice = deserialize({ ...options.spread });
+        return indice;
+    }
+    static lazy<T, P>(
+        options: {
+            id: string,
+            load(options: Record<string, unknown>): Promise<any>,
+            loadPage?(options: { id: string }): Promise<any>
+        },
+        deserialize: (options: Record<string, unknown>) => ISpreadIndice<T, P>
+    ): ISharedIndice<T, P> {
+        const indice = new RangeTreeIndice<T, P>({ ...options, isLoaded: false });
+        indice.indiceDeserialize = deserialize;
+        return indice;
+    }
+    private async load(signal?: AbortSignal) {
+        if (this.options.isLoaded) {
+            return;
+        } else if (this.options.load) {
+            if (!this.indiceDeserialize) {
+                throw (Error("deserialzed doesn't set"))
+            }
+            return this.loading.run(signal);
+        } else {
+            throw (Error("option load doesn't implemented"))
+        }
+    }
+    private async fetch(signal: AbortSignal) {
+        const load = this.options.load!;
+        const deserialize = this.indiceDeserialize!;
+        const { data, options }: {
+            data: INode<P>[],
+            options: ISerializeOptions<T, P>
+        } = await load({ ...this.options, signal });
+        this.root = data;
+        this.options = { ...this.options, ...options.self, id: this.id, isLoaded: true };
+        this.spreadOptions = options.spread;
+        this.indice = deserialize({ ...options.spread });
+    }
+    /**
+     * Pages are small and cached, so an aborted query stops waiting for a page but doesn't cancel it.
+     */
+    private async page(id: string, signal?: AbortSignal): Promise<INode<P>[]> {
+        const page = this.pages.get(id);
+        if (page) {
+            return abortable(Promise.resolve(page), signal);
+        }
+        if (!this.options.loadPage) {
+            throw (Error("option loadPage doesn't implemented"))
+        }
+        const page$ = this.options.loadPage({ id }).then(({ data }) => {
+            this.pages.set(id, data);
+            return data as INode<P>[];
+        }, (e) => {
+            this.pages.delete(id);
+            throw e;
+        });
+        this.pages.set(id, page$);
+        return abortable(page$, signal);
+    }
+    private chunk([[left, right], id]: INode<P>): ISpreadIndice<T, P> {
+        let indice = this.chunks.get(id);
+        if (!indice) {
+            if (!this.indiceDeserialize) {
+                throw (Error("deserialzed doesn't set"))
+            }
+            indice = this.indiceDeserialize({ ...this.spreadOptions, id });
+            this.chunks.set(id, indice);
+            this.indices.set(new Range(left, right), indice);
+        }
+        return indice;
+    }
+    private lowerBound(nodes: INode<P>[], test: (node: INode<P>) => boolean): number {
+        let low = 0;
+        let high = nodes.length;
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            if (test(nodes[middle])) {
+                high = middle;
+            } else {
+                low = middle + 1;
+            }
+        }
+        return low;
+    }
+    private bounds(nodes: INode<P>[], token: P, operator: string): [number, number] {
+        const firstRight = (t: P, strict = false) => this.lowerBound(nodes, ([[, right]]) => compareKeys(right, t) >= (strict ? 1 : 0));
+        const afterLeft = (t: P, strict = false) => this.lowerBound(nodes, ([[left]]) => compareKeys(left, t) >= (strict ? 0 : 1));
+        switch (operator) {
+            case '$nin':
+            case '$ne':
+                return [0, nodes.length];
+            case '$gt':
+                return [firstRight(token, true), nodes.length];
+            case '$gte':
+                return [firstRight(token), nodes.length];
+            case '$lt':
+                return [0, afterLeft(token, true)];
+            case '$lte':
+                return [0, afterLeft(token)];
+            case '$regex':
+            case '$prefix':
+            case '$near':
+            case '$geoWithin': {
+                const prefix = operator !== '$regex' ? `${token}` : regexPrefix(token);
+                if (prefix === null) {
+                    return [0, nodes.length];
+                }
+                return [firstRight(prefix as unknown as P), afterLeft(`${prefix}\uffff` as unknown as P, true)];
+            }
+            case '$range': {
+                const { $gte, $lt } = token as unknown as IKeyRange<P>;
+                return [firstRight($gte), afterLeft($lt, true)];
+            }
+            case '$eq':
+            case '$in':
+            default:
+                return [firstRight(token), afterLeft(token)];
+        }
+    }
+    private select(nodes: INode<P>[], tokens: P[], operator: string): INode<P>[] {
+        if (!tokens.length) {
+            return nodes;
+        }
+        const selected = new Set<number>();
+        tokens.forEach((token) => {
+            const [from, to] = this.bounds(nodes, token, operator);
+            for (let i = from; i < to; i++) {
+                if (operator !== '$regex' || new Range(nodes[i][0][0], nodes[i][0][1]).match(token)) {
+                    selected.add(i);
+                }
+            }
+        });
+        return [...selected].sort((a, b) => a - b).map((i) => nodes[i]);
+    }
+    private async search(tokens: P[], operator: string, signal?: AbortSignal): Promise<ISpreadIndice<T, P>[]> {
+        let nodes = this.select(this.root, tokens, operator);
+        for (let height = this.options.height; height > 0; height--) {
+            const pages = await Promise.all(nodes.map(([, id]) => this.page(id, signal)));
+            nodes = this.select(pages.flat(), tokens, operator);
+        }
+        return nodes.map((node) => this.chunk(node));
+    }
+    private tokens(value?: P | P[]): P[] {
+        const { indice } = this;
+        if (!indice) {
+            throw new Error("Spread indice doesn't initialized")
+        }
+        if (value === undefined) {
+            return [];
+        }
+        const tokenizr = (v: P) => indice.queryTokenizr ? indice.queryTokenizr(v) : indice.tokenizr(v);
+        return Array.isArray(value) ? value.flatMap(tokenizr) : tokenizr(value);
+    }
+    async find(value?: P | P[], { operator = '$eq', sort = 1, scores, limit, fields, signal }: Partial<IFindOptions> = {}): Promise<T[]> {
+        await this.load(signal);
+        const indices = await this.search(this.tokens(value), operator, signal);
+        if (sort === -1) {
+            indices.reverse();
+        }
+        return this.indice!.findAll(indices, value, { operator, sort, scores, limit, fields, signal });
+    }
+    /**
+     * Loads the pages and chunks a query would read, without running it.
+     */
+    async prefetch(value?: P | P[], { operator = '$eq', signal }: Partial<IFindOptions> = {}): Promise<void> {
+        await this.load(signal);
+        const indices = await this.search(this.tokens(value), operator, signal);
+        await Promise.all(indices.map((indice) => indice.load?.(signal)));
+    }
+    async distinct(value?: P | P[], { operator = '$eq', sort = 1, signal }: Partial<IFindOptions> = {}): Promise<Map<P, T[]>> {
+        await this.load(signal);
+        const tokens = this.tokens(value);
+        const indices = await this.search(tokens, operator, signal);
+        if (sort === -1) {
+            indices.reverse();
+        }
+        const list = await Promise.all(indices.map((indice) => {
+            if (!indice.distinct) {
+                throw (Error("distinct doesn't implemented"))
+            }
+            return indice.distinct(tokens, { operator, sort, signal });
+        }));
+        return list.reduce((sum, keys) => {
+            keys.forEach((ids, key) => sum.set(key, [...(sum.get(key) || []), ...ids]));
+            return sum;
+        }, new Map<P, T[]>());
+    }
+    cursor(value?: P | P[], { operator = '$eq', sort = 1, scores, fields, signal, position }: Partial<IFindOptions> = {}): AsyncIterable<T[]> {
+        let iterator: AsyncIterator<T[]> | undefined;
+        const find = async () => {
+            if (iterator) {
+                return iterator;
+            }
+            await this.load(signal);
+            const indices = await this.search(this.tokens(value), operator, signal);
+            if (sort === -1) {
+                indices.reverse();
+            }
+            iterator = this.indice!.cursorAll(indices, value, { operator, sort, scores, fields, signal, position })[Symbol.asyncIterator]();
+            return iterator;
+        };
+        return {
+            [Symbol.asyncIterator]() {
+                return {
+                    async next() {
+                        return (await find()).next();
+                    }
+                }
+            }
+        }
+    }
+
+}
@@ -1,3 +1,21 @@
+import { IKeyRange } from "./interfaces";
+import { compareKeys } from "./keys";
+
+/**
+ * Literal prefix of an anchored regex, `null` when the keys matching it aren't contiguous.
+ */
+export const regexPrefix = (token: unknown): string | null => {
+    if (token instanceof RegExp && (token.ignoreCase || token.multiline)) {
+        return null;
+    }
+    const source = token instanceof RegExp ? token.source : `${token}`;
+    const match = source.match(/^\^([\w\d]+)([?*{]?)/);
+    if (!match || source.includes('|')) {
+        return null;
+    }
+    return (match[2] ? match[1].slice(0, -1) : match[1]) || null;
+}
+
 export class Range<T> {
     left: T;
     right: T;
@@ -9,39 +27,38 @@ export class Range<T> {
         const { left, right } = indexes.reduce<{ left: P | null, right: P | null }>((sum, val) => {
             const left = sum.left === null ? val : sum.left;
             const right = sum.right === null ? val : sum.right;
-            return { left: left > val ? val : left, right: right < val ? val : right }
+            return { left: compareKeys(left, val) > 0 ? val : left, right: compareKeys(right, val) < 0 ? val : right }
         }, { left: null, right: null });
         return new Range(left!, right!)
     }
     public has(token: T): boolean {
-        return token >= this.left && token <= this.right;
+        return compareKeys(token, this.left) >= 0 && compareKeys(token, this.right) <= 0;
     }
+    /**
+     * The range may hold keys matching the regex, always true unless it has a literal prefix.
+     */
     public match(token: T): boolean {
-        let source: string;
-        let ignoreCase = false;
-        if (token instanceof RegExp) {
-            source = token.source
-            ignoreCase = token.ignoreCase;
-        } else {
-            source = (`${token}`).toString();
-        }
-
-        const match = source.match(/\^([\w\d]+)/);
-        if (!match) {
-            return false;
-        }
-        const m = ignoreCase ? match[1].toLowerCase() : match[1];
-        const left = ignoreCase ?`${this.left}`.toLowerCase():`${this.left}`;
-        const right = ignoreCase ?`${this.right}`.toLowerCase():`${this.right}`;
-        const result = (m >= left || left.startsWith(m))
-            && (m <= right || right.startsWith(m));
-        return result;
+        const prefix = regexPrefix(token);
+        return prefix === null || this.prefix(prefix as unknown as T);
+    }
+    public prefix(token: T): boolean {
+        const prefix = `${token}`;
+        return `${this.right}` >= prefix && (`${this.left}` <= prefix || `${this.left}`.startsWith(prefix));
+    }
+    public overlap({ $gte, $lt }: IKeyRange<T>): boolean {
+        return compareKeys(this.right, $gte) >= 0 && compareKeys(this.left, $lt) < 0;
     }
-    public lt(token: T): boolean {
-        return token >= this.right || this.has(token);
+    /**
+     * The range may hold keys lower than the token, or equal with `inclusive`.
+     */
+    public lt(token: T, inclusive = false): boolean {
+        return compareKeys(this.left, token) < (inclusive ? 1 : 0);
     }
-    public gt(token: T): boolean {
-        return token <= this.left || this.has(token);;
+    /**
+     * The range may hold keys greater than the token, or equal with `inclusive`.
+     */
+    public gt(token: T, inclusive = false): boolean {
+        return compareKeys(this.right, token) > (inclusive ? -1 : 0);
     }
     test(token: T, operator: string): boolean {
         switch (operator) {
@@ -52,13 +69,21 @@ export class Range<T> {
             case '$ne':
                 return true;
             case '$lt':
-            case '$lte':
                 return this.lt(token);
-            case '$lt':
             case '$lte':
+                return this.lt(token, true);
+            case '$gt':
                 return this.gt(token);
+            case '$gte':
+                return this.gt(token, true);
             case '$regex':
                 return this.match(token);
+            case '$prefix':
+            case '$near':
+            case '$geoWithin':
+                return this.prefix(token);
+            case '$range':
+                return this.overlap(token as unknown as IKeyRange<T>);
             default:
                 return this.has(token);
         }
@@ -0,0 +1,54 @@
+import { ColumnIndice } from "./column.indice";
+import { FuzzyIndice } from "./fuzzy.indice";
+import { GeoIndice } from "./geo.indice";
+import { NgramIndice } from "./ngram.indice";
+import { PrefixIndice } from "./prefix.indice";
+import { RangeLinearIndice } from "./range.linear.indice";
+import { RangeTreeIndice } from "./range.tree.indice";
+import { SimpleIndice } from "./simple.indice";
+import { TextIndice } from "./text.indice";
+
+export interface IIndiceType {
+    new(...args: any[]): unknown;
+    deserialize(...args: any[]): any;
+    lazy?(...args: any[]): any;
+}
+
+const registry: Map<string, IIndiceType> = new Map();
+
+/**
+ * Indice types are stored by name in the schema manifest, custom indices have to be
+ * registered before `Db.save` and `Db.restore`.
+ */
+export const registerIndice = (name: string, type: IIndiceType): void => {
+    registry.set(name, type);
+}
+
+export const indiceType = (name: string): IIndiceType => {
+    const type = registry.get(name);
+    if (!type) {
+        throw (Error(`indice type ${name} doesn't registered`))
+    }
+    return type;
+}
+
+export const indiceTypeName = (indice: unknown): string => {
+    for (const [name, type] of registry) {
+        if ((indice as { constructor: unknown }).constructor === type) {
+            return name;
+        }
+    }
+    throw (Error(`indice type ${(indice as { constructor: { name: string } }).constructor.name} doesn't registered`))
+}
+
+Object.entries({
+    SimpleIndice,
+    ColumnIndice,
+    NgramIndice,
+    TextIndice,
+    PrefixIndice,
+    FuzzyIndice,
+    GeoIndice,
+    RangeLinearIndice,
+    RangeTreeIndice,
+}).forEach(([name, type]) => registerIndice(name, type));
@@ -1,11 +1,36 @@
 import { ISharedIndice } from "interfaces";
+import { indiceTypeName } from "./registry";
 
 export interface IIndiceOption {
     indice: ISharedIndice<any, any>;
     path?: string;
+    paths?: string[];
     value?: any;
     order?: -1 | 1;
     op?: any;
+    spread?: string;
+}
+export interface ISchemaIndice {
+    id: string;
+    type: string;
+    spread: string;
+    path?: string;
+    paths?: string[];
+}
+export interface ISchemaManifest {
+    idAttr: string;
+    primary: ISchemaIndice;
+    indices: ISchemaIndice[];
+}
+/**
+ * The spread type of a restored indice comes from its manifest, a lazy indice has no chunks yet.
+ */
+const schemaIndice = ({ indice, path, paths, spread }: IIndiceOption): ISchemaIndice => {
+    const [chunk] = indice.indices.values();
+    if (!spread && !chunk) {
+        throw (Error(`indice ${indice.id} doesn't have chunks`))
+    }
+    return { id: indice.id, type: indiceTypeName(indice), spread: spread || indiceTypeName(chunk), path, paths };
 }
 export class Schema {
     primaryIndice: ISharedIndice<Record<string, unknown>, unknown>;
@@ -16,4 +41,22 @@ export class Schema {
         this.primaryIndice = primaryIndice;
         this.idAttr = idAttr;
     }
-}
\ No newline at end of file
+    serialize(): ISchemaManifest {
+        return {
+            idAttr: this.idAttr,
+            primary: schemaIndice(this.indices.find(({ indice }) => indice === this.primaryIndice)!),
+            indices: this.indices
+                .filter(({ indice }) => indice !== this.primaryIndice)
+                .map(schemaIndice),
+        };
+    }
+    static async deserialize(
+        { idAttr, primary, indices }: ISchemaManifest,
+        restore: (indice: ISchemaIndice) => Promise<ISharedIndice<any, any>>
+    ): Promise<Schema> {
+        const [primaryIndice, ...list] = await Promise.all([primary, ...indices].map(restore));
+        const schema = new Schema(idAttr, primaryIndice, indices.map(({ path, paths, spread }, i) => ({ indice: list[i], path, paths, spread })));
+        schema.indices.find(({ indice }) => indice === primaryIndice)!.spread = primary.spread;
+        return schema;
+    }
+}
@@ -1,23 +1,38 @@
-import { IFindOptions, ISpreadIndice } from "./interfaces"
+import { IFindOptions, IKeyRange, ISpreadIndice } from "./interfaces"
+import { chunkCache, sizeOf } from "./cache";
+import { chunkLimiter } from "./limiter";
+import { SharedTask } from "./abort";
+import { compareKeys } from "./keys";
+import { regexPrefix } from "./range";
 const CHUNK_SIZE_DEFAULT = 100;
 interface IOptions extends Record<string, unknown> {
     id?: string;
     isLoaded: boolean;
-    load?(options: IOptions): Promise<never>;
+    load?(options: IOptions & { signal?: AbortSignal }): Promise<never>;
 }
 let id_counter = 1;
+const isSame = <T>(a: T, b: T) => a === b || (typeof a === 'object' && JSON.stringify(a) === JSON.stringify(b));
+const lowerBound = <P>(keys: P[], test: (key: P) => boolean): number => {
+    let low = 0;
+    let high = keys.length;
+    while (low < high) {
+        const middle = (low + high) >>> 1;
+        if (test(keys[middle])) {
+            high = middle;
+        } else {
+            low = middle + 1;
+        }
+    }
+    return low;
+}
 export class SimpleIndice<T, P> implements ISpreadIndice<T, P>{
     public indices: Map<P, T[]> = new Map();
     public options: IOptions;
+    private loading = new SharedTask((signal) => this.fetch(signal));
+    private dates?: { indices: Map<P, T[]>, keys: Map<number, P> };
+    private sorted?: { indices: Map<P, T[]>, keys: P[] };
     get keys() {
-        const keys = [...this.indices.keys()];
-        keys.sort((a, b) => {
-            if (a === b) {
-                return 0;
-            }
-            return a < b ? -1 : 1;
-        })
-        return keys;
+        return [...this.sortedKeys()];
     }
     public get id() {
         return this.options.id!;
@@ -41,12 +56,60 @@ export class SimpleIndice<T, P> implements ISpreadIndice<T, P>{
         } else {
             tokens.push(value);
         }
-        tokens.forEach((token) => {
+        tokens.map((token) => this.key(token)).forEach((token) => {
             const indice = this.indices.get(token) || []
+            if (!indice.length && this.sorted?.indices === this.indices) {
+                const { keys } = this.sorted;
+                keys.splice(lowerBound(keys, (key) => compareKeys(key, token) >= 0), 0, token);
+            }
             indice.push(key);
             this.indices.set(token, indice);
         });
     }
+    remove(key: T, value: P | P[]): void {
+        const tokens: P[] = Array.isArray(value) ? value : [value];
+        tokens.map((token) => this.key(token)).forEach((token) => {
+            const indice = (this.indices.get(token) || []).filter((item) => !isSame(item, key));
+            if (indice.length) {
+                this.indices.set(token, indice);
+            } else if (this.indices.delete(token) && this.sorted?.indices === this.indices) {
+                const { keys } = this.sorted;
+                keys.splice(lowerBound(keys, (key) => compareKeys(key, token) >= 0), 1);
+            }
+        });
+    }
+    addTokens(key: T, tokens: P[]): void {
+        this.add(key, tokens);
+    }
+    removeTokens(key: T, tokens: P[]): void {
+        this.remove(key, tokens);
+    }
+    /**
+     * Keys sorted by `compareKeys`, built once per loaded map and kept in order by `add` and `remove`.
+     */
+    private sortedKeys(): P[] {
+        if (this.sorted?.indices !== this.indices) {
+            this.sorted = { indices: this.indices, keys: [...this.indices.keys()].sort(compareKeys) };
+        }
+        return this.sorted.keys;
+    }
+    /**
+     * Map keys compare by identity, so equal dates are resolved to the instance already stored.
+     */
+    private key(token: P): P {
+        if (!((token as unknown) instanceof Date)) {
+            return token;
+        }
+        if (this.dates?.indices !== this.indices) {
+            const keys = [...this.indices.keys()].filter((key) => (key as unknown) instanceof Date);
+            this.dates = { indices: this.indices, keys: new Map(keys.map((key) => [(key as unknown as Date).getTime(), key])) };
+        }
+        const time = (token as unknown as Date).getTime();
+        if (!this.dates.keys.has(time)) {
+            this.dates.keys.set(time, token);
+        }
+        return this.dates.keys.get(time)!;
+    }
     serializeOptions(): Record<string, unknown> {
         const { load, ...options } = this.options;
         return options;
@@ -57,91 +120,145 @@ export class SimpleIndice<T, P> implements ISpreadIndice<T, P>{
     tokenizr(value: P): P[] {
         return [value]
     }
-    private async load() {
+    public unload() {
+        if (this.options.load) {
+            this.indices = new Map();
+            this.options.isLoaded = false;
+        }
+    }
+    public async load(signal?: AbortSignal) {
         if (this.options.isLoaded) {
+            chunkCache.hit(this);
             return;
         } else if (this.options.load) {
-            const { data } = await this.options.load(this.options);
-            this.indices = new Map(data);
-            this.options.isLoaded = true;
+            return this.loading.run(signal);
         } else {
             throw (Error("option load doesn't implemented"))
         }
     }
-    private getIndices(tokens: P[], operator: string, sort: 1 | -1 = 1) {
+    private async fetch(signal: AbortSignal) {
+        const load = this.options.load!;
+        const { data } = await chunkLimiter.run(() => load({ ...this.options, signal }), signal);
+        this.indices = new Map(data);
+        this.sortedKeys();
+        this.options.isLoaded = true;
+        chunkCache.add(this, sizeOf(data));
+    }
+    private getIndices(tokens: P[], operator: string, sort: 1 | -1 = 1): T[] {
+        return this.getKeys(tokens, operator, sort).reduce((sum, key) => {
+            sum.push(...this.indices.get(key)!);
+            return sum;
+        }, [] as T[]);
+    }
+    private getKeys(tokens: P[], operator: string, sort: 1 | -1 = 1): P[] {
         switch (operator) {
             case '$lte': {
-                return this.getIndicesFullScanOr(tokens, (a, b) => a <= b, sort);
+                return this.getKeysByRanges(tokens, (keys, token) => [[0, lowerBound(keys, (key) => compareKeys(key, token) > 0)]], sort);
             }
             case '$lt': {
-                return this.getIndicesFullScanOr(tokens, (a, b) => a < b, sort);
+                return this.getKeysByRanges(tokens, (keys, token) => [[0, lowerBound(keys, (key) => compareKeys(key, token) >= 0)]], sort);
             }
             case '$gte': {
-                return this.getIndicesFullScanOr(tokens, (a, b) => a >= b, sort);
+                return this.getKeysByRanges(tokens, (keys, token) => [[lowerBound(keys, (key) => compareKeys(key, token) >= 0), keys.length]], sort);
             }
             case '$gt': {
-                return this.getIndicesFullScanOr(tokens, (a, b) => a > b, sort);
+                return this.getKeysByRanges(tokens, (keys, token) => [[lowerBound(keys, (key) => compareKeys(key, token) > 0), keys.length]], sort);
             }
             case '$regex': {
-                return this.getIndicesFullScanOr(tokens, (a, b) => {
-                    const regexp = b instanceof RegExp ? b : new RegExp(`${b}`);
-                    return regexp.test(`${a}`)
+                const regexps = tokens.map((token) => token instanceof RegExp ? token : new RegExp(`${token}`));
+                return this.getKeysByRanges(tokens, (keys, token) => this.prefixRanges(keys, token), sort)
+                    .filter((key) => regexps.some((regexp) => regexp.test(`${key}`)));
+            }
+            case '$range': {
+                return this.getKeysByRanges(tokens, (keys, token) => {
+                    const { $gte, $lt } = token as unknown as IKeyRange<P>;
+                    return [[lowerBound(keys, (key) => compareKeys(key, $gte) >= 0), lowerBound(keys, (key) => compareKeys(key, $lt) >= 0)]];
                 }, sort);
-
             }
             case '$nin':
             case '$ne': {
-                return this.getIndicesFullScanAnd(tokens, (a, b) => a != b, sort);
+                return this.getKeysFullScanAnd(tokens, (a, b) => compareKeys(a, b) !== 0, sort);
             }
             case '$eq':
             case '$in':
             default:
-                return tokens.reduce((sum, token) => {
-                    const r = this.indices.get(token);
-                    if (r) {
-                        sum.push(...r);
-                    }
-                    return sum;
-                }, [] as T[]);
+                return tokens.map((token) => this.key(token)).filter((token) => this.indices.has(token));
 
         }
     }
-    private getIndicesFullScanOr(tokens: P[], cond: (a: P, b: P) => boolean, sort: 1 | -1 = 1): T[] {
-        const keys = this.keys;
+    /**
+     * Union of the `[start, end)` slices of the sorted keys selected by every token.
+     */
+    private getKeysByRanges(tokens: P[], ranges: (keys: P[], token: P) => [number, number][], sort: 1 | -1 = 1): P[] {
+        const keys = this.sortedKeys();
+        const slices = tokens.flatMap((token) => ranges(keys, token))
+            .filter(([start, end]) => start < end)
+            .sort(([a], [b]) => a - b);
+        let result: P[] = [];
+        let last = 0;
+        slices.forEach(([start, end]) => {
+            if (end > last) {
+                result = result.concat(keys.slice(Math.max(start, last), end));
+                last = end;
+            }
+        });
         if (sort === -1) {
-            keys.reverse();
+            result.reverse();
         }
-        return keys.reduce((sum, k) => {
-            if (tokens.some(token => cond(k, token))) {
-                const ids = this.indices.get(k)!;
-                sum.push(...ids)
-            };
-            return sum;
-        }, [] as T[]);
+        return result;
+    }
+    /**
+     * Slices holding the string keys starting with the regex prefix and the keys of other types,
+     * which are tested as strings.
+     */
+    private prefixRanges(keys: P[], token: P): [number, number][] {
+        const prefix = regexPrefix(token);
+        if (prefix === null) {
+            return [[0, keys.length]];
+        }
+        const isAfter = (key: P) => typeof key !== 'string' || !key.startsWith(prefix);
+        return [
+            [0, lowerBound(keys, (key) => compareKeys(key, '') >= 0)],
+            [lowerBound(keys, (key) => compareKeys(key, prefix) >= 0), lowerBound(keys, (key) => compareKeys(key, prefix) >= 0 && isAfter(key))],
+            [lowerBound(keys, (key) => typeof key !== 'string' && compareKeys(key, '') > 0), keys.length],
+        ];
     }
-    private getIndicesFullScanAnd(tokens: P[], cond: (a: P, b: P) => boolean, sort: 1 | -1 = 1): T[] {
+    private getKeysFullScanAnd(tokens: P[], cond: (a: P, b: P) => boolean, sort: 1 | -1 = 1): P[] {
         const keys = this.keys;
         if (sort === -1) {
             keys.reverse();
         }
-        return keys.reduce((sum, k) => {
-            if (tokens.every(token => cond(k, token))) {
-                const ids = this.indices.get(k)!;
-                sum.push(...ids)
-            };
-            return sum;
-        }, [] as T[]);
+        return keys.filter((k) => tokens.every(token => cond(k, token)));
+    }
+    public async distinct(tokens: P[], { operator = '$eq', sort = 1, signal }: Partial<IFindOptions> = {}): Promise<Map<P, T[]>> {
+        chunkCache.acquire(this);
+        try {
+            await this.load(signal);
+            const keys = tokens.length ? this.getKeys(tokens, operator, sort) : this.keys;
+            if (!tokens.length && sort === -1) {
+                keys.reverse();
+            }
+            return new Map(keys.map((key) => [key, this.indices.get(key)!]));
+        } finally {
+            chunkCache.release(this);
+        }
+    }
+    public async preFilter(tokens: P[], options: Partial<IFindOptions> = {}): Promise<Map<T, number>> {
+        chunkCache.acquire(this);
+        try {
+            await this.load(options.signal);
+            return this.select(tokens, options);
+        } finally {
+            chunkCache.release(this);
+        }
     }
-    public async preFilter(tokens: P[], { operator = '$eq', sort = 1 }: Partial<IFindOptions> = {}): Promise<Map<T, number>> {
+    /**
+     * Ids of the loaded keys matching the tokens.
+     */
+    protected select(tokens: P[], { operator = '$eq', sort = 1 }: Partial<IFindOptions> = {}): Map<T, number> {
         const countResults: Map<T, number> = new Map();
-        await this.load();
         const t = [...tokens];
-        t.sort((a, b) => {
-            if (a === b) {
-                return 0;
-            }
-            return (a < b ? 1 : -1) * sort
-        });
+        t.sort((a, b) => compareKeys(a, b) * sort);
         const indices = this.getIndices(t, operator, sort);
         if (indices) {
             indices.forEach((id) => {
@@ -150,7 +267,8 @@ export class SimpleIndice<T, P> implements ISpreadIndice<T, P>{
             });
         }
         if (!tokens.length) {
-            const v = [...this.indices.values()]
+            // keys in order, an update appends the added keys to the map
+            const v = this.sortedKeys().map((key) => this.indices.get(key)!);
             if (sort === -1) {
                 v.reverse();
             }
@@ -161,12 +279,12 @@ export class SimpleIndice<T, P> implements ISpreadIndice<T, P>{
         }
         return countResults;
     }
-    async find(value?: P | P[], { operator = '$eq', sort = 1 }: Partial<IFindOptions> = {}): Promise<T[]> {
+    async find(value?: P | P[], { operator = '$eq', sort = 1, fields, signal }: Partial<IFindOptions> = {}): Promise<T[]> {
         let tokens: P[] = []
         if (value !== undefined) {
             tokens = Array.isArray(value) ? value.flatMap(v => this.tokenizr(v)) : this.tokenizr(value);
         }
-        const preResult = await this.preFilter(tokens, { operator, sort });
+        const preResult = await this.preFilter(tokens, { operator, sort, fields, signal });
         return this.postFilter(preResult, tokens);
     }
     public postFilter(countResults: Map<T, number>, tokens: P[]): T[] {
@@ -188,7 +306,7 @@ export class SimpleIndice<T, P> implements ISpreadIndice<T, P>{
         }
         const index = new SimpleIndice<T, P>(options);
         if (!!data) {
-            index.indices = data;
+            index.indices = data instanceof Map ? data : new Map(data);
         }
         return index;
     }
@@ -205,7 +323,7 @@ export class SimpleIndice<T, P> implements ISpreadIndice<T, P>{
             } else {
                 while (value.length) {
                     map.set(key, value.splice(0, chunkSize - size));
-                    result.push(SimpleIndice.deserialize<T, P>(
+                    result.push((this.constructor as typeof SimpleIndice).deserialize<T, P>(
                         map,
                         options
                     ));
@@ -215,19 +333,19 @@ export class SimpleIndice<T, P> implements ISpreadIndice<T, P>{
             }
         })
         if (size != 0) {
-            result.push(SimpleIndice.deserialize<T, P>(
+            result.push((this.constructor as typeof SimpleIndice).deserialize<T, P>(
                 map,
                 options
             ))
         }
         return result;
     }
-    public async findAll(indices: ISpreadIndice<T, P>[], value?: P | P[], { operator = '$eq', sort = 1 }: Partial<IFindOptions> = {}): Promise<T[]> {
+    public async findAll(indices: ISpreadIndice<T, P>[], value?: P | P[], { operator = '$eq', sort = 1, fields, signal }: Partial<IFindOptions> = {}): Promise<T[]> {
         let tokens: P[] = []
         if (value !== undefined) {
             tokens = Array.isArray(value) ? value.flatMap(v => this.tokenizr(v)) : this.tokenizr(value);
         }
-        const list = await Promise.all(indices.map((indice) => indice.preFilter(tokens, { operator, sort })));
+        const list = await Promise.all(indices.map((indice) => indice.preFilter(tokens, { operator, sort, fields, signal })));
         const combineWeights = list.reduce((sum, weights) => {
             weights.forEach((value, key) => {
                 const count = sum.get(key) || 0
@@ -237,32 +355,45 @@ export class SimpleIndice<T, P> implements ISpreadIndice<T, P>{
         }, new Map())
         return this.postFilter(combineWeights, tokens);
     }
-    public cursorAll(indices: ISpreadIndice<T, P>[], value?: P | P[], { operator = '$eq', sort = 1, chunkSize = 20 }: Partial<IFindOptions> = {}): AsyncIterable<T[]> {
+    public cursorAll(indices: ISpreadIndice<T, P>[], value?: P | P[], { operator = '$eq', sort = 1, chunkSize = 20, fields, signal, position }: Partial<IFindOptions> = {}): AsyncIterable<T[]> {
         let tokens: P[] = []
         if (value !== undefined) {
             tokens = Array.isArray(value) ? value.flatMap(v => this.tokenizr(v)) : this.tokenizr(value);
         }
         let result: T[] | null = null;
-        let indiceIndex = 0;
+        let indiceIndex = position?.chunk === undefined ? 0 : indices.findIndex(({ id }) => id === position.chunk);
+        let skip = position?.chunk === undefined ? 0 : position.offset;
         let data = new Map<T, number>();
+        if (indiceIndex < 0) {
+            throw (Error(`cursor chunk ${position!.chunk} doesn't exist`))
+        }
+        const read = async () => {
+            data = await indices[indiceIndex].preFilter(tokens, { operator, sort, fields, signal });
+            result = [...data.keys()].slice(skip);
+            result.reverse();
+            skip = 0;
+            if (position) {
+                position.chunk = indices[indiceIndex].id;
+                position.offset = data.size - result.length;
+            }
+        }
         return {
             [Symbol.asyncIterator]() {
                 return {
                     async next() {
-                        if (indiceIndex === 0 && !result && indiceIndex <= indices.length - 1) {
-                            data = await indices[indiceIndex].preFilter(tokens, { operator, sort });
-                            result = [...data.keys()];
-                            result.reverse();
+                        if (!result && indiceIndex <= indices.length - 1) {
+                            await read();
                         }
                         while (!result?.length && indiceIndex < indices.length - 1) {
                             indiceIndex++;
-                            data = await indices[indiceIndex].preFilter(tokens, { operator, sort });
-                            result = [...data.keys()];
-                            result.reverse();
+                            await read();
                         }
                         if (result && result.length) {
                             const currentChunkSize = Math.min(chunkSize, result.length);
-                            const value = result.splice(-currentChunkSize, currentChunkSize);
+                            const value = result.splice(-currentChunkSize, currentChunkSize).reverse();
+                            if (position) {
+                                position.offset += value.length;
+                            }
                             return { done: false, value };
                         } else {
                             return { done: true, value: undefined };
@@ -0,0 +1,36 @@
+import fs from "fs";
+import { dirname, join } from "path";
+import util from "util";
+import { IReadOptions, IStorage } from "./storage";
+import { throwIfAborted } from "./abort";
+
+const writeFile = util.promisify(fs.writeFile);
+const readFile = util.promisify(fs.readFile);
+const readdir = util.promisify(fs.readdir);
+const unlink = util.promisify(fs.unlink);
+const mkdir = util.promisify(fs.mkdir);
+
+export class FsStorage implements IStorage {
+    public root: string;
+    constructor(root = '.') {
+        this.root = root;
+    }
+    async read(path: string, { signal }: IReadOptions = {}): Promise<Uint8Array> {
+        throwIfAborted(signal);
+        return readFile(join(this.root, path));
+    }
+    async write(path: string, data: Uint8Array | string): Promise<void> {
+        await mkdir(dirname(join(this.root, path)), { recursive: true });
+        await writeFile(join(this.root, path), data);
+    }
+    async list(dir: string): Promise<string[]> {
+        try {
+            return await readdir(join(this.root, dir));
+        } catch (e) {
+            return [];
+        }
+    }
+    async remove(path: string): Promise<void> {
+        await unlink(join(this.root, path));
+    }
+}
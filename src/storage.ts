@@ -0,0 +1,149 @@
+import { gunzip } from "./compression";
+import { throwIfAborted } from "./abort";
+
+export interface IReadOptions {
+    signal?: AbortSignal;
+}
+/**
+ * Paths are relative to the storage root and separated by `/`, e.g. `titles/index.json`.
+ */
+export interface IStorage {
+    read(path: string, options?: IReadOptions): Promise<Uint8Array>;
+    write(path: string, data: Uint8Array | string): Promise<void>;
+    list(dir: string): Promise<string[]>;
+    remove?(path: string): Promise<void>;
+}
+
+const encode = (data: Uint8Array | string) => typeof data === 'string' ? new TextEncoder().encode(data) : data;
+const normalize = (path: string) => path.split('/').filter((part) => part && part !== '.').join('/');
+
+export class MemoryStorage implements IStorage {
+    public files: Map<string, Uint8Array> = new Map();
+    async read(path: string, { signal }: IReadOptions = {}): Promise<Uint8Array> {
+        throwIfAborted(signal);
+        const data = this.files.get(normalize(path));
+        if (!data) {
+            throw (Error(`file ${path} doesn't exist`))
+        }
+        return data;
+    }
+    async write(path: string, data: Uint8Array | string): Promise<void> {
+        this.files.set(normalize(path), encode(data));
+    }
+    async list(dir: string): Promise<string[]> {
+        const prefix = normalize(dir) ? `${normalize(dir)}/` : '';
+        return [...this.files.keys()]
+            .filter((path) => path.startsWith(prefix))
+            .map((path) => path.slice(prefix.length))
+            .filter((name) => !name.includes('/'));
+    }
+    async remove(path: string): Promise<void> {
+        this.files.delete(normalize(path));
+    }
+}
+
+const BLOCK = 512;
+const field = (header: Uint8Array, offset: number, length: number) => {
+    const bytes = header.subarray(offset, offset + length);
+    const end = bytes.indexOf(0);
+    return new TextDecoder().decode(end === -1 ? bytes : bytes.subarray(0, end));
+}
+const writeField = (header: Uint8Array, offset: number, length: number, value: string) => {
+    header.set(new TextEncoder().encode(value).subarray(0, length), offset);
+}
+const octal = (value: number, length: number) => `${value.toString(8).padStart(length - 1, '0')}\0`;
+
+/**
+ * Directory bundled into a single ustar archive, plain or gzipped. Written files are kept
+ * in memory, `pack` returns the archive.
+ */
+export class TarStorage extends MemoryStorage {
+    constructor(data?: Uint8Array) {
+        super();
+        if (data) {
+            this.unpack(data[0] === 0x1f && data[1] === 0x8b ? gunzip(data) : data);
+        }
+    }
+    private unpack(data: Uint8Array) {
+        for (let offset = 0; offset + BLOCK <= data.length;) {
+            const header = data.subarray(offset, offset + BLOCK);
+            const name = field(header, 0, 100);
+            if (!name) {
+                break;
+            }
+            const prefix = field(header, 345, 155);
+            const size = parseInt(field(header, 124, 12).trim() || '0', 8);
+            const type = field(header, 156, 1);
+            offset += BLOCK;
+            if (!type || type === '0') {
+                this.files.set(normalize(prefix ? `${prefix}/${name}` : name), data.slice(offset, offset + size));
+            }
+            offset += Math.ceil(size / BLOCK) * BLOCK;
+        }
+    }
+    pack(): Uint8Array {
+        const files = [...this.files];
+        const size = files.reduce((sum, [, data]) => sum + BLOCK + Math.ceil(data.length / BLOCK) * BLOCK, 2 * BLOCK);
+        const result = new Uint8Array(size);
+        let offset = 0;
+        files.forEach(([path, data]) => {
+            const header = result.subarray(offset, offset + BLOCK);
+            const split = path.length > 100 ? path.lastIndexOf('/', 155) : -1;
+            if (path.length > 100 && (split === -1 || path.length - split - 1 > 100)) {
+                throw (Error(`path ${path} is too long for tar`))
+            }
+            writeField(header, 0, 100, split === -1 ? path : path.slice(split + 1));
+            writeField(header, 100, 8, octal(0o644, 8));
+            writeField(header, 108, 8, octal(0, 8));
+            writeField(header, 116, 8, octal(0, 8));
+            writeField(header, 124, 12, octal(data.length, 12));
+            writeField(header, 136, 12, octal(0, 12));
+            writeField(header, 148, 8, '        ');
+            writeField(header, 156, 1, '0');
+            writeField(header, 257, 8, 'ustar\u000000');
+            if (split !== -1) {
+                writeField(header, 345, 155, path.slice(0, split));
+            }
+            const checksum = header.reduce((sum, byte) => sum + byte, 0);
+            writeField(header, 148, 8, `${checksum.toString(8).padStart(6, '0')}\0 `);
+            result.set(data, offset + BLOCK);
+            offset += BLOCK + Math.ceil(data.length / BLOCK) * BLOCK;
+        });
+        return result;
+    }
+}
+
+interface IHttpOptions {
+    baseUrl: string;
+    init: RequestInit;
+    revalidate(path: string): boolean;
+}
+
+/**
+ * Read only storage over `fetch`, root pointers are revalidated on every read.
+ */
+export class HttpStorage implements IStorage {
+    public options: IHttpOptions;
+    constructor({
+        baseUrl,
+        init = {},
+        revalidate = (path) => /(^|\/)(index|schema)\.json/.test(path),
+    }: Partial<IHttpOptions> & { baseUrl: string }) {
+        this.options = { baseUrl, init, revalidate };
+    }
+    async read(path: string, { signal }: IReadOptions = {}): Promise<Uint8Array> {
+        const { baseUrl, init, revalidate } = this.options;
+        const options: RequestInit = revalidate(path) ? { ...init, cache: 'no-cache' } : init;
+        const response = await fetch(`${baseUrl}/${normalize(path)}`, signal ? { ...options, signal } : options);
+        if (!response.ok) {
+            throw (Error(`file ${path} doesn't exist`))
+        }
+        return new Uint8Array(await response.arrayBuffer());
+    }
+    async write(): Promise<void> {
+        throw (Error("write doesn't implemented"))
+    }
+    async list(): Promise<string[]> {
+        throw (Error("list doesn't implemented"))
+    }
+}
@@ -0,0 +1,30 @@
+import { NgramIndice } from "./ngram.indice";
+
+type IOptions = NonNullable<ConstructorParameters<typeof NgramIndice>[0]>;
+
+export class TextIndice<T> extends NgramIndice<T> {
+    constructor({ analyzer = 'standard', actuationLimit = 1, ...options }: IOptions = {}) {
+        super({ ...options, analyzer, actuationLimit });
+    }
+    tokenizr(value: string): string[] {
+        const { preTokenizr, postTokenizr } = this.options;
+        const v = preTokenizr ? preTokenizr(value) : value
+        const tokens = this.words(v);
+        return postTokenizr ? postTokenizr(value, tokens) : tokens;
+    }
+    static deserialize<T, P>(data: any, options?: any) {
+        if (!options) {
+            options = data;
+            data = null;
+        }
+        const index = new TextIndice<T>(options);
+        if (!!data) {
+            if (data instanceof Map) {
+                index.indices = data;
+            } else {
+                index.setData(data);
+            }
+        }
+        return index;
+    }
+}
@@ -1,35 +1,63 @@
 import { ISpreadIndice, ISharedIndice } from "./interfaces";
+import { IEncoding, parseJson } from "./compression";
+import { ISchemaManifest, Schema } from "./schema";
+import { indiceType } from "./registry";
+import { HttpStorage, IStorage } from "./storage";
+import { IRetryOptions, restoreLazySharedIndices } from "./persistence";
 
 
-interface IOptions<T, P> {
+export interface ISourceOptions extends Partial<IRetryOptions> {
+    baseUrl?: string,
+    storage?: IStorage,
+    encoding?: IEncoding,
+}
+interface IOptions<T, P> extends ISourceOptions {
     id: string,
-    baseUrl: string,
     deserializeShared: (
-        options: { id: string, load(options: Record<string, unknown>): Promise<any> },
+        options: {
+            id: string,
+            load(options: Record<string, unknown>): Promise<any>,
+            loadPage(options: { id: string }): Promise<any>
+        },
         deserialize: (data: any, options?: Record<string, unknown>) => ISpreadIndice<T, P>) => ISharedIndice<T, P>,
     deserialize: (
         options: Record<string, unknown>
     ) => ISpreadIndice<T, P>
 }
 
+const storageOf = ({ baseUrl, storage }: ISourceOptions): IStorage => {
+    if (storage) {
+        return storage;
+    }
+    if (!baseUrl) {
+        throw (Error("option baseUrl doesn't set"))
+    }
+    return new HttpStorage({ baseUrl });
+}
 
 export const restoreSharedIndices = async <T, P>(
-    { id, baseUrl, deserialize, deserializeShared }: IOptions<T, P>
-
+    { id, encoding, deserialize, deserializeShared, timeout, retries, backoff, ...options }: IOptions<T, P>
 ) => {
-    const loadChunk = async (options: { id: T }) => {
-        const response = await fetch(`${baseUrl}/${id}/chunk_${options.id}.json`);
-        return response.json();
-    }
-    const load = async (options: { id: T }) => {
-        const response = await fetch(`${baseUrl}/${id}/index.json`, {
-            method: 'GET',
-            credentials: 'include',
-            mode: 'no-cors',
+    return restoreLazySharedIndices(storageOf(options), id, deserializeShared, deserialize, { encoding, timeout, retries, backoff });
+}
+
+export const restoreSchema = async ({ encoding, timeout, retries, backoff, ...options }: ISourceOptions): Promise<Schema> => {
+    const storage = storageOf(options);
+    const manifest: ISchemaManifest = await parseJson(await storage.read('schema.json'));
+    return Schema.deserialize(manifest, async ({ id, type, spread }) => {
+        const lazy = indiceType(type).lazy;
+        if (!lazy) {
+            throw (Error(`lazy ${type} doesn't implemented`))
+        }
+        return restoreSharedIndices({
+            id,
+            storage,
+            encoding,
+            timeout,
+            retries,
+            backoff,
+            deserializeShared: lazy,
+            deserialize: indiceType(spread).deserialize,
         });
-        return response.json();
-    }
-    return deserializeShared(
-        { id, load },
-        (options) => deserialize({ ...options, load: loadChunk }));
+    });
 }
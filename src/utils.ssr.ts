@@ -1,28 +1,137 @@
-import fs from "fs";
-import { join } from "path";
 import util from "util";
-import { ISharedIndice, ISpreadIndice } from "./interfaces";
+import zlib from "zlib";
+import crypto from "crypto";
+import { IIndiceChanges, ISharedIndice, ISpreadIndice } from "./interfaces";
+import { IEncoding, extensions } from "./compression";
+import { IChunkEntry, IFormat, encodeChunk, isBinaryCompatible } from "./codec";
+import { stringifyKeys } from "./keys";
+import { ISchemaManifest, Schema } from "./schema";
+import { Db } from "./db";
+import { indiceType } from "./registry";
+import { IStorage } from "./storage";
+import { FsStorage } from "./storage.fs";
+import { ILoaderOptions, IRetryOptions, IRootPointer, loader, restoreSharedIndices as restore } from "./persistence";
 
 
-const writeFile = util.promisify(fs.writeFile);
-const readFile = util.promisify(fs.readFile);
+const compress: Record<IEncoding, (data: zlib.InputType) => Promise<Buffer>> = {
+    gzip: util.promisify(zlib.gzip),
+    br: util.promisify(zlib.brotliCompress),
+};
+const decompress: Record<IEncoding, (data: zlib.InputType) => Promise<Buffer>> = {
+    gzip: util.promisify(zlib.gunzip),
+    br: util.promisify(zlib.brotliDecompress),
+};
+const loaderOptions: Pick<ILoaderOptions, 'decompress'> = {
+    decompress: async (data, encoding) => encoding ? decompress[encoding](data) : data,
+};
 
-const mkdir = util.promisify(fs.mkdir);
-const exists = util.promisify(fs.exists);
+export interface ISaveOptions {
+    /**
+     * Precompressed copies to write. Browsers decode `gzip` in pure JS but `br` only through
+     * `DecompressionStream` or a CDN serving `Content-Encoding: br`, so `br` needs `gzip` or `json` next to it
+     * and `gzip` is the encoding recorded for loading when both are written.
+     */
+    encodings: IEncoding[];
+    json: boolean;
+    format: IFormat;
+    hashed: boolean;
+}
+export interface IDocumentChanges<D> {
+    added?: D[];
+    changed?: [D, D][];
+    removed?: D[];
+}
+
+const storageOf = (publicPath: string | IStorage): IStorage => typeof publicPath === 'string' ? new FsStorage(publicPath) : publicPath;
 
-export const saveSharedIndices = async <T, P>(indice: ISharedIndice<T, P>, publicPath = '.') => {
-    const dir = join(publicPath, indice.id);
-    const existDir = await exists(dir);
-    if (!existDir) {
-        await mkdir(dir)
+const contentHash = (data: string | Uint8Array) => crypto.createHash('sha256').update(data).digest('hex').slice(0, 16);
+
+const writer = (storage: IStorage, dir: string, { encodings, json, hashed }: Omit<ISaveOptions, 'format'>, files: Record<string, string> = {}) => {
+    const written: string[] = [];
+    const write = async (name: string, data: unknown): Promise<string> => {
+        const [raw, extension] = data instanceof Uint8Array ? [data, '.bin'] : [stringifyKeys(data), '.json'];
+        const file = hashed ? `${name}.${contentHash(raw)}${extension}` : `${name}${extension}`;
+        if (json || !encodings.length) {
+            await storage.write(`${dir}/${file}`, raw)
+            written.push(file);
+        }
+        for (const encoding of encodings) {
+            await storage.write(`${dir}/${file}${extensions[encoding]}`, await compress[encoding](raw))
+            written.push(`${file}${extensions[encoding]}`);
+        }
+        files[name] = file;
+        return file;
     }
-    await writeFile(join(dir, 'index.json'), JSON.stringify(indice.serialize()))
+    return { files, written, write };
+}
+
+/**
+ * Writes the chunk and returns its format, chunks the binary codec can't encode (documents,
+ * string ids, typed keys) fall back to json.
+ */
+const writeChunk = async <T, P>(write: (name: string, data: unknown) => Promise<string>, v: ISpreadIndice<T, P>, format: IFormat): Promise<IFormat> => {
+    if (!v.options.isLoaded && v.options.load) {
+        await v.load?.();
+    }
+    const groups = v.serializeGroups?.();
+    if (groups) {
+        for (const [group, data] of groups) {
+            await write(`chunk_${v.id}.${group}`, { data, options: { id: v.id, group } })
+        }
+        return 'json';
+    }
+    const data = v.serializeData();
+    if (format === 'binary' && isBinaryCompatible(data)) {
+        await write(`chunk_${v.id}`, encodeChunk(data as IChunkEntry[]));
+        return 'binary';
+    }
+    await write(`chunk_${v.id}`, { data, options: { id: v.id } });
+    return 'json';
+}
+
+const loadEncoding = (encodings: IEncoding[]): IEncoding | undefined => encodings.includes('gzip') ? 'gzip' : encodings[0];
+
+const writeManifest = async <T, P>(
+    storage: IStorage,
+    indice: ISharedIndice<T, P>,
+    { write, files }: ReturnType<typeof writer>,
+    { encodings, format, hashed }: Omit<ISaveOptions, 'json'>,
+    formats: Record<string, IFormat>
+) => {
+    const encoding = loadEncoding(encodings);
+    const manifest = { ...indice.serialize(), encoding, format, ...(format === 'binary' ? { formats } : {}) };
+    if (!hashed) {
+        await write('index', manifest);
+        return;
+    }
+    const version = contentHash(JSON.stringify(files));
+    const file = await write('index', { ...manifest, version, files });
+    const pointer: IRootPointer = { manifest: file, encoding, version };
+    await storage.write(`${indice.id}/index.json`, JSON.stringify(pointer));
+}
+
+export const saveSharedIndices = async <T, P>(
+    indice: ISharedIndice<T, P>,
+    publicPath: string | IStorage = '.',
+    { encodings = [], json = true, format = 'json', hashed = false }: Partial<ISaveOptions> = {}
+) => {
+    if (!json && encodings.length && !encodings.includes('gzip')) {
+        throw (Error("br only output isn't portable, browsers can't decode it without Content-Encoding: add 'gzip' or json"))
+    }
+    const storage = storageOf(publicPath);
+    const output = writer(storage, indice.id, { encodings, json, hashed });
+    if (indice.options.load || indice.options.loadPage) {
+        // a restored indice reads its manifest and every page before its chunks are listed
+        await indice.prefetch?.();
+    }
+    const formats: Record<string, IFormat> = {};
     for (const [_, v] of indice.indices) {
-        await writeFile(
-            join(dir, `chunk_${v.id}.json`),
-            JSON.stringify({ data: v.serializeData(), options: { id: v.id } })
-        )
+        formats[v.id] = await writeChunk(output.write, v, format);
+    }
+    for (const [id, data] of indice.serializePages?.() || []) {
+        await output.write(`page_${id}`, { data, options: { id } })
     }
+    await writeManifest(storage, indice, output, { encodings, format, hashed }, formats);
 }
 
 export const restoreSharedIndices = async <T, P>(
@@ -30,20 +139,112 @@ export const restoreSharedIndices = async <T, P>(
     deserializeShared: (
         data: any,
         options: any,
-        deserialize: (data: any, options?: any) => ISpreadIndice<T, P>) => ISharedIndice<T, P>,
+        deserialize: (data: any, options?: any) => ISpreadIndice<T, P>,
+        loadPage: (options: { id: string }) => Promise<any>) => ISharedIndice<T, P>,
     deserialize: (
         data: any,
         options?: any
-    ) => ISpreadIndice<T, any>
-
+    ) => ISpreadIndice<T, any>,
+    publicPath: string | IStorage = '.',
+    options: Partial<IRetryOptions> = {}
 ): Promise<ISharedIndice<T, P>> => {
-    const load = async (options: { id }) => {
-        return JSON.parse((await readFile(`./${id}/chunk_${options.id}.json`)).toString())
-    }
-    const jsonRaw = await readFile(`./${id}/index.json`);
-    const json: { data: [any, any][], options: any } = JSON.parse(jsonRaw.toString());
-    return deserializeShared(
-        json.data,
-        json.options,
-        (options) => deserialize({ ...options, load }));
+    return restore(storageOf(publicPath), id, deserializeShared, deserialize, { ...loaderOptions, ...options });
+}
+
+export const saveSchema = async (schema: Schema, publicPath: string | IStorage = '.', options: Partial<ISaveOptions> = {}) => {
+    const storage = storageOf(publicPath);
+    const manifest = schema.serialize();
+    for (const { indice } of schema.indices) {
+        await saveSharedIndices(indice, storage, options);
+    }
+    await storage.write('schema.json', JSON.stringify(manifest));
+}
+
+export const restoreSchema = async (publicPath: string | IStorage = '.', options: Partial<IRetryOptions> = {}): Promise<Schema> => {
+    const storage = storageOf(publicPath);
+    const manifest: ISchemaManifest = JSON.parse(new TextDecoder().decode(await storage.read('schema.json')));
+    return Schema.deserialize(manifest, ({ id, type, spread }) => restoreSharedIndices(
+        id,
+        indiceType(type).deserialize,
+        indiceType(spread).deserialize,
+        storage,
+        options
+    ));
+}
+
+/**
+ * Writes every indice of the db and `schema.json` with the id attribute, paths and indice types.
+ */
+export const saveDb = (db: Db, publicPath: string | IStorage = '.', options: Partial<ISaveOptions> = {}): Promise<void> => {
+    return saveSchema(db.schema, publicPath, options);
+}
+
+export const restoreDb = async (publicPath: string | IStorage = '.', options: Partial<IRetryOptions> = {}): Promise<Db> => {
+    return new Db(await restoreSchema(publicPath, options));
+}
+
+/**
+ * Rebuilds a saved indice from the changed documents: only the chunks holding the changed keys
+ * are written, the files of the replaced chunks are deleted. `added` lists the files to upload,
+ * the rewritten manifest included, `removed` lists the deleted files.
+ */
+export const updateSharedIndices = async <T, P, D>(
+    id: string,
+    deserializeShared: (
+        data: any,
+        options: any,
+        deserialize: (data: any, options?: any) => ISpreadIndice<T, P>,
+        loadPage: (options: { id: string }) => Promise<any>) => ISharedIndice<T, P>,
+    deserialize: (
+        data: any,
+        options?: any
+    ) => ISpreadIndice<T, any>,
+    { added = [], changed = [], removed = [] }: IDocumentChanges<D>,
+    map: (document: D) => [T, P | P[]],
+    publicPath: string | IStorage = '.'
+): Promise<{ added: string[], removed: string[] }> => {
+    const storage = storageOf(publicPath);
+    if (!storage.remove) {
+        throw (Error("remove doesn't implemented"))
+    }
+    const { root, json } = await loader(storage, id, loaderOptions).manifest();
+    const indice = await restoreSharedIndices<T, P>(id, deserializeShared, deserialize, storage);
+    if (!indice.update) {
+        throw (Error("update doesn't implemented"))
+    }
+    const changes: IIndiceChanges<T, P> = {
+        add: [...added, ...changed.map(([_, document]) => document)].map(map),
+        remove: [...removed, ...changed.map(([document]) => document)].map(map),
+    };
+    const update = await indice.update(changes);
+    const manifest = 'manifest' in root ? root.manifest : 'index.json';
+    const hashed = manifest !== 'index.json';
+    const files = await storage.list(id);
+    const encodings = (Object.keys(extensions) as IEncoding[])
+        .filter((encoding) => files.includes(`${manifest}${extensions[encoding]}`))
+        .sort((a, b) => +(b === json.encoding) - +(a === json.encoding));
+    const output = writer(storage, id, { encodings, json: files.includes(manifest), hashed }, { ...json.files });
+    const format = json.format || 'json';
+    const formats: Record<string, IFormat> = { ...json.formats };
+    for (const chunk of update.added) {
+        formats[chunk.id] = await writeChunk(output.write, chunk, format);
+    }
+    const stale = update.removed.flatMap(({ id }) => {
+        delete formats[id];
+        Object.keys(output.files)
+            .filter((name) => name === `chunk_${id}` || name.startsWith(`chunk_${id}.`))
+            .forEach((name) => delete output.files[name]);
+        return files.filter((file) => file.startsWith(`chunk_${id}.`));
+    });
+    await writeManifest(storage, indice, output, { encodings, format, hashed }, formats);
+    if (hashed) {
+        output.written.push('index.json');
+        if (!output.written.includes(manifest)) {
+            stale.push(...files.filter((file) => file === manifest || file.startsWith(`${manifest}.`)));
+        }
+    }
+    for (const file of stale) {
+        await storage.remove(`${id}/${file}`);
+    }
+    return { added: output.written, removed: stale };
 }
@@ -0,0 +1,89 @@
+import movies from "./__seed__/movies.json";
+import { RangeLinearIndice } from "../src/range.linear.indice";
+import { SimpleIndice } from "../src/simple.indice";
+import { IReadOptions, MemoryStorage } from "../src/storage";
+import { ChunkLoadError, QueryAbortedError } from "../src/errors";
+import { IRetryOptions } from "../src/persistence";
+import { saveSharedIndices } from "../src/utils.ssr";
+import { restoreSharedIndices } from "../src/utils.browser";
+
+class FlakyStorage extends MemoryStorage {
+    public delay = 20;
+    public failures = 0;
+    public aborted: string[] = [];
+    async read(path: string, { signal }: IReadOptions = {}): Promise<Uint8Array> {
+        if (this.failures > 0) {
+            this.failures--;
+            throw (Error("network error"))
+        }
+        await new Promise((resolve, reject) => {
+            const timer = setTimeout(resolve, this.delay);
+            signal?.addEventListener('abort', () => {
+                clearTimeout(timer);
+                this.aborted.push(path);
+                reject(Error("aborted"));
+            });
+        });
+        return super.read(path);
+    }
+}
+const storage = new FlakyStorage();
+const restore = (options: Partial<IRetryOptions> = {}) => restoreSharedIndices<number, string>({
+    id: 'movies',
+    storage,
+    deserializeShared: RangeLinearIndice.lazy,
+    deserialize: SimpleIndice.deserialize as any,
+    ...options,
+});
+const chunkAborts = () => storage.aborted.filter((path) => path.includes('chunk_'));
+beforeAll(async () => {
+    const indice = new SimpleIndice<number, string>({ isLoaded: false });
+    movies.forEach((val, key) => indice.add(key, val));
+    await saveSharedIndices(new RangeLinearIndice<number, string>({ indice, id: 'movies', chunkSize: 500 }), storage);
+});
+beforeEach(() => {
+    storage.delay = 20;
+    storage.failures = 0;
+    storage.aborted = [];
+});
+
+test('aborted query cancels its chunk loads', async () => {
+    const indice = await restore();
+    await indice.find("Avatar");
+    const controller = new AbortController();
+    const result = indice.find("Titanic", { signal: controller.signal });
+    setTimeout(() => controller.abort(), 5);
+    await expect(result).rejects.toBeInstanceOf(QueryAbortedError);
+    expect(chunkAborts()).toHaveLength(1);
+    expect(await indice.find("Titanic")).toEqual([movies.indexOf("Titanic")]);
+});
+
+test('shared chunk load survives an aborted caller', async () => {
+    const indice = await restore();
+    const controller = new AbortController();
+    const aborted = indice.find("Titanic", { signal: controller.signal });
+    const kept = indice.find("Titanic");
+    setTimeout(() => controller.abort(), 5);
+    await expect(aborted).rejects.toBeInstanceOf(QueryAbortedError);
+    expect(await kept).toEqual([movies.indexOf("Titanic")]);
+    expect(storage.aborted).toEqual([]);
+});
+
+test('failed reads are retried with backoff', async () => {
+    storage.failures = 2;
+    expect(await (await restore({ retries: 2, backoff: 1 })).find("Titanic")).toEqual([movies.indexOf("Titanic")]);
+
+    storage.failures = 2;
+    const error = await (await restore({ retries: 1, backoff: 1 })).find("Titanic").catch((e) => e);
+    expect(error).toBeInstanceOf(ChunkLoadError);
+    expect(error).toMatchObject({ path: 'movies/index.json', attempts: 2 });
+});
+
+test('slow reads time out', async () => {
+    storage.delay = 1;
+    const indice = await restore({ timeout: 10 });
+    await indice.find("Avatar");
+    storage.delay = 50;
+    await expect(indice.find("Titanic")).rejects.toBeInstanceOf(ChunkLoadError);
+    expect(storage.aborted.length).toBeGreaterThan(0);
+});
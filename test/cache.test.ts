@@ -0,0 +1,75 @@
+import movies from "./__seed__/movies.json";
+import { RangeLinearIndice } from "../src/range.linear.indice";
+import { SimpleIndice } from "../src/simple.indice";
+import { NgramIndice } from "../src/ngram.indice";
+import { MemoryStorage } from "../src/storage";
+import { chunkCache } from "../src/cache";
+import { ISharedIndice } from "../src/interfaces";
+import { saveSharedIndices, restoreSharedIndices } from "../src/utils.ssr";
+import { restoreSharedIndices as restoreLazy } from "../src/utils.browser";
+
+const memory = new MemoryStorage();
+const titles = [movies[10], movies[5000], movies[20000]];
+let restored: ISharedIndice<number, string>;
+beforeAll(async () => {
+    const indice = new SimpleIndice<number, string>({ isLoaded: false });
+    movies.forEach((val, key) => indice.add(key, val));
+    await saveSharedIndices(new RangeLinearIndice<number, string>({ indice, id: 'cached', chunkSize: 500 }), memory);
+});
+beforeEach(async () => {
+    chunkCache.clear();
+    chunkCache.configure({ maxEntries: 2, maxBytes: Infinity });
+    restored = await restoreSharedIndices<number, string>("cached", RangeLinearIndice.deserialize, SimpleIndice.deserialize, memory);
+});
+
+test('least recently used chunks are unloaded', async () => {
+    for (const title of titles) {
+        expect(await restored.find(title)).toEqual([movies.indexOf(title)]);
+    }
+    expect(chunkCache.stats).toMatchObject({ misses: 3, hits: 0, evictions: 1, entries: 2 });
+    expect([...restored.indices.values()].filter(({ options }) => options.isLoaded).length).toEqual(2);
+
+    expect(await restored.find(titles[2])).toEqual([movies.indexOf(titles[2])]);
+    expect(chunkCache.stats).toMatchObject({ misses: 3, hits: 1 });
+    expect(await restored.find(titles[0])).toEqual([movies.indexOf(titles[0])]);
+    expect(chunkCache.stats).toMatchObject({ misses: 4, hits: 1, evictions: 2 });
+});
+
+test('byte budget and pinned indices', async () => {
+    chunkCache.configure({ maxEntries: Infinity, maxBytes: 1 });
+    chunkCache.pin(restored);
+    for (const title of titles) {
+        await restored.find(title);
+    }
+    expect(chunkCache.stats).toMatchObject({ misses: 3, evictions: 0, entries: 3 });
+    chunkCache.unpin(restored);
+    expect(chunkCache.stats).toMatchObject({ evictions: 3, entries: 0, bytes: 0 });
+});
+
+test('chunks of a pinned lazy indice are held once loaded', async () => {
+    chunkCache.configure({ maxEntries: Infinity, maxBytes: 1 });
+    const lazy = await restoreLazy<number, string>({ id: 'cached', storage: memory, deserializeShared: RangeLinearIndice.lazy, deserialize: SimpleIndice.deserialize });
+    chunkCache.pin(lazy);
+    expect(lazy.indices.size).toEqual(0);
+    for (const title of titles) {
+        expect(await lazy.find(title)).toEqual([movies.indexOf(title)]);
+    }
+    expect(chunkCache.stats).toMatchObject({ misses: 3, evictions: 0, entries: 3 });
+    chunkCache.unpin(lazy);
+    expect(chunkCache.stats).toMatchObject({ evictions: 3, entries: 0 });
+});
+
+test('multi-chunk queries read every chunk with a tiny budget', async () => {
+    chunkCache.configure({ maxEntries: 1 });
+    const title = movies[15000];
+    const gte = await restored.find(title, { operator: '$gte' });
+    expect(gte).toHaveLength(movies.filter((movie) => movie >= title).length);
+    expect(chunkCache.stats.entries).toEqual(1);
+
+    const ngram = new NgramIndice<number>({ isLoaded: false });
+    ['alpha beta', 'gamma', 'delta', 'alpha', 'omega'].forEach((val, key) => ngram.add(key, val));
+    await saveSharedIndices(new RangeLinearIndice<number, string>({ indice: ngram, id: 'cached_ngram', chunkSize: 2 }), memory);
+    const texts = await restoreSharedIndices<number, string>("cached_ngram", RangeLinearIndice.deserialize, NgramIndice.deserialize, memory);
+    expect((await texts.find('alpha')).sort()).toEqual([0, 3]);
+    expect(chunkCache.stats.entries).toEqual(1);
+});
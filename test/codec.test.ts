@@ -0,0 +1,34 @@
+import fs from "fs";
+import movies from "./__seed__/movies.json";
+import { IChunkEntry, decodeChunk, encodeChunk } from "../src/codec";
+import { NgramIndice } from "../src/ngram.indice";
+import { RangeLinearIndice } from "../src/range.linear.indice";
+import { saveSharedIndices, restoreSharedIndices } from "../src/utils.ssr";
+
+test('encode and decode keep keys and ids order', () => {
+    const data: [string | number, number[]][] = [
+        ["abc", [1, 2, 3, 1000000]],
+        ["abd", [7, 3, 0]],
+        ["ёлка", [2 ** 40, 5]],
+        [12.5, []],
+        ["abdx", [42]],
+    ];
+    expect(decodeChunk(encodeChunk(data))).toEqual(data);
+    const withFields: IChunkEntry[] = [["abc", [1, 2], 2, [5, 7]], ["abd", [3], -1, []]];
+    expect(decodeChunk(encodeChunk(withFields))).toEqual(withFields);
+    expect(() => encodeChunk([["abc", [{ id: 1 } as any]]])).toThrow();
+});
+
+test('binary chunks are smaller and restore like json', async () => {
+    const indice = new NgramIndice<number>({ gramLen: 3, actuationLimit: 2, toLowcase: true });
+    movies.forEach((movie, key) => indice.add(key, movie));
+    const data = indice.serializeData();
+    expect(encodeChunk(data).length).toBeLessThan(JSON.stringify(data).length / 2);
+
+    await saveSharedIndices(new RangeLinearIndice<number, string>({ indice, id: 'binary', chunkSize: 2000 }), '.', { format: 'binary', encodings: ['gzip'] });
+    const files = fs.readdirSync('./binary').filter((file) => file.startsWith('chunk_'));
+    expect(files.every((file) => file.endsWith('.bin') || file.endsWith('.bin.gz'))).toBeTruthy();
+    const restored = await restoreSharedIndices<number, string>("binary", RangeLinearIndice.deserialize, NgramIndice.deserialize);
+    const sorted = (ids: number[]) => [...ids].sort((a, b) => a - b);
+    expect(sorted(await restored.find("Paradise"))).toEqual(sorted(await indice.find("Paradise")));
+});
@@ -0,0 +1,43 @@
+import fs from "fs";
+import zlib from "zlib";
+import movies from "./__seed__/movies.json";
+import { decompress, gunzip } from "../src/compression";
+import { RangeLinearIndice } from "../src/range.linear.indice";
+import { SimpleIndice } from "../src/simple.indice";
+import { saveSharedIndices, restoreSharedIndices } from "../src/utils.ssr";
+
+const json = Buffer.from(JSON.stringify(movies));
+
+test('gunzip stored, fixed and dynamic blocks', () => {
+    expect(Buffer.from(gunzip(zlib.gzipSync(json, { level: 0 })))).toEqual(json);
+    expect(Buffer.from(gunzip(zlib.gzipSync(json, { level: 1 })))).toEqual(json);
+    expect(Buffer.from(gunzip(zlib.gzipSync(json, { level: 9 })))).toEqual(json);
+    expect(Buffer.from(gunzip(zlib.gzipSync('"abc"')))).toEqual(Buffer.from('"abc"'));
+});
+
+test('decompress data already decoded by the CDN', async () => {
+    expect(Buffer.from(await decompress(new Uint8Array(json), 'gzip'))).toEqual(json);
+    expect(Buffer.from(await decompress(new Uint8Array(json), 'br'))).toEqual(json);
+});
+
+test('save and restore compressed chunks', async () => {
+    const indice = new SimpleIndice<number, string>({ isLoaded: false });
+    movies.forEach((val, key) => indice.add(key, val));
+    await saveSharedIndices(new RangeLinearIndice<number, string>({ indice, id: 'compressed', chunkSize: 500 }), '.', { encodings: ['br', 'gzip'], json: false });
+    const files = fs.readdirSync('./compressed');
+    expect(files).toContain('index.json.br');
+    expect(files).toContain('index.json.gz');
+    expect(files.filter((file) => file.endsWith('.json'))).toHaveLength(0);
+    expect(JSON.parse(zlib.gunzipSync(fs.readFileSync('./compressed/index.json.gz')).toString()).encoding).toEqual('gzip');
+    const restored = await restoreSharedIndices<number, string>("compressed", RangeLinearIndice.deserialize, SimpleIndice.deserialize);
+    const results = await restored.find("1492: Conquest of Paradise");
+    expect(results.map(i => movies[i])).toEqual(["1492: Conquest of Paradise"]);
+});
+
+test('br only output is refused', async () => {
+    const indice = new SimpleIndice<number, string>();
+    indice.add(1, 'a');
+    await expect(saveSharedIndices(new RangeLinearIndice<number, string>({ indice, id: 'br_only' }), '.', { encodings: ['br'], json: false }))
+        .rejects.toThrow("br only output isn't portable");
+    expect(fs.existsSync('./br_only')).toBeFalsy();
+});
@@ -0,0 +1,52 @@
+import mingo from "mingo";
+import countries from "./__seed__/country-by-continent.json";
+import { RangeLinearIndice } from "../src/range.linear.indice";
+import { SimpleIndice } from "../src/simple.indice";
+import { Db } from "../src/db";
+import { Schema } from "../src/schema";
+import { Database } from "../src/database";
+
+const all = countries.map((country, key) => ({ ...country, id: key }));
+const names = [...new Set(countries.map(({ continent }) => continent))];
+const continents = names.map((name, key) => ({ name, code: name.slice(0, 2).toUpperCase(), id: key }));
+let database: Database;
+beforeAll(() => {
+    const primary = new SimpleIndice<Record<string, unknown>, number>();
+    all.forEach((country) => primary.add(country, country.id));
+    const continent = new SimpleIndice<number, string>();
+    all.forEach((country) => continent.add(country.id, country.continent));
+    const countriesDb = new Db(new Schema('id', new RangeLinearIndice({ indice: primary, chunkSize: 30 }), [
+        { indice: new RangeLinearIndice({ indice: continent, chunkSize: 30 }), path: 'continent' }
+    ]));
+    const continentsPrimary = new SimpleIndice<Record<string, unknown>, string>();
+    continents.forEach((value) => continentsPrimary.add(value, value.name));
+    const continentsDb = new Db(new Schema('name', new RangeLinearIndice({ indice: continentsPrimary }), []));
+    database = new Database({ countries: countriesDb, continents: continentsDb }, { batchSize: 1 });
+});
+
+test('$lookup through the foreign indice by batches', async () => {
+    const find = jest.spyOn(database.collection('countries'), 'find');
+    const pipeline = [
+        { $match: { name: { $in: ["Africa", "Oceania"] } } },
+        { $sort: { name: 1 } },
+        { $lookup: { from: 'countries', localField: 'name', foreignField: 'continent', as: 'countries' } },
+        { $project: { name: 1, count: { $size: "$countries" } } },
+    ];
+    const result = await database.aggregate('continents', pipeline);
+    expect(result).toEqual(["Africa", "Oceania"].map((name) => ({
+        name,
+        count: all.filter(({ continent }) => continent === name).length,
+    })));
+    expect(find).toHaveBeenCalledTimes(2);
+    find.mockRestore();
+});
+
+test('populate', async () => {
+    const documents = new mingo.Query({ continent: "Europe" }).find(all).limit(3).all() as Record<string, unknown>[];
+    const result = await database.populate<{ continent: { code: string } }>(documents, 'continent', 'continents', 'name');
+    expect(result.map(({ continent }) => continent.code)).toEqual(["EU", "EU", "EU"]);
+});
+
+test('unknown collection', () => {
+    expect(() => database.collection('people')).toThrow();
+});
@@ -1,11 +1,17 @@
+import fs from "fs";
 import { RangeLinearIndice } from "../src/range.linear.indice";
 import { NgramIndice } from "../src/ngram.indice";
 import mingo from "mingo"
 import countries from "./__seed__/country-by-continent.json";
-import { saveSharedIndices, restoreSharedIndices } from "../src/utils.ssr";
+import { saveSharedIndices, restoreSharedIndices, saveDb, restoreDb } from "../src/utils.ssr";
 import { SimpleIndice } from "../src/simple.indice";
+import { PrefixIndice } from "../src/prefix.indice";
+import { FuzzyIndice } from "../src/fuzzy.indice";
+import { compoundIndice } from "../src/compound";
 import { Db } from "../src/db";
 import { Schema } from "../src/schema";
+import { QueryAbortedError } from "../src/errors";
+import { MemoryStorage } from "../src/storage";
 
 
 let contriesDb: Db;
@@ -21,12 +27,27 @@ beforeAll(async () => {
     const simpleIndices = new SimpleIndice<number, string>({ isLoaded: false });
     countries.forEach((country, key) => simpleIndices.add(key, country.continent));
     const simpleRange = new RangeLinearIndice<number, string>({ indice: simpleIndices, id: 'simple', chunkSize: 30 });
+
+    const prefixIndices = new PrefixIndice<number>({ isLoaded: false });
+    countries.forEach((country, key) => prefixIndices.add(key, { value: country.country, weight: country.country.length }));
+    const prefixRange = new RangeLinearIndice<number, string>({ indice: prefixIndices, id: 'prefix', chunkSize: 30 });
+
+    const fuzzyIndices = new FuzzyIndice<number>({ isLoaded: false });
+    countries.forEach((country, key) => fuzzyIndices.add(key, country.country));
+    const fuzzyRange = new RangeLinearIndice<number, string>({ indice: fuzzyIndices, id: 'fuzzy', chunkSize: 30 });
+
+    const compoundIndices = compoundIndice<number>(['continent', 'id'], { isLoaded: false });
+    countries.forEach((country, key) => compoundIndices.add(key, { ...country, id: key }));
+    const compoundRange = new RangeLinearIndice<number, string>({ indice: compoundIndices.indice, id: 'compound', chunkSize: 30 });
     await Promise.all([
         saveSharedIndices(range),
         saveSharedIndices(primaryRange),
-        saveSharedIndices(simpleRange)
+        saveSharedIndices(simpleRange),
+        saveSharedIndices(prefixRange),
+        saveSharedIndices(fuzzyRange),
+        saveSharedIndices(compoundRange)
     ]);
-    const [primary, text, simple] = await Promise.all([
+    const [primary, text, simple, prefix, fuzzy, compound] = await Promise.all([
         restoreSharedIndices<number, Record<string, unknown>>(
             "primary",
             RangeLinearIndice.deserialize,
@@ -42,13 +63,31 @@ beforeAll(async () => {
             RangeLinearIndice.deserialize,
             SimpleIndice.deserialize
         ),
+        restoreSharedIndices<number, string>(
+            "prefix",
+            RangeLinearIndice.deserialize,
+            PrefixIndice.deserialize
+        ),
+        restoreSharedIndices<number, string>(
+            "fuzzy",
+            RangeLinearIndice.deserialize,
+            FuzzyIndice.deserialize
+        ),
+        restoreSharedIndices<number, string>(
+            "compound",
+            RangeLinearIndice.deserialize,
+            SimpleIndice.deserialize
+        ),
     ]);
     contriesDb = new Db(new Schema(
         'id',
         primary,
         [
             { indice: text, path: "$text" },
-            { indice: simple, path: 'continent' }
+            { indice: simple, path: 'continent' },
+            { indice: prefix, path: "$prefix" },
+            { indice: fuzzy, path: "$fuzzy" },
+            { indice: compound, paths: compoundIndices.paths }
         ]
     ))
 
@@ -149,6 +188,65 @@ test('{ $text: "Angola", continent: "Africa" }', async () => {
         20
     );
 });
+test('{ $text: "Angola" }, { score: { $meta: "textScore" } }', async () => {
+    const result = await contriesDb.find<{ country: string }>(
+        { $text: "Angola" },
+        { score: { $meta: 'textScore' } },
+        0,
+        5
+    );
+    expect(result.map(({ country }) => country)).toEqual(["Angola", "Mongolia"]);
+});
+test('{ $prefix: "ba" }', async () => {
+    const result = await contriesDb.find<{ country: string }>({ $prefix: "ba" }, undefined, 0, 3);
+    expect(result.map(({ country }) => country)).toEqual(["Antigua and Barbuda", "Bangladesh", "Barbados"]);
+});
+test('{ $prefix } completes every word', async () => {
+    const words = await contriesDb.find<{ country: string }>({ $prefix: "barb" }, undefined, 0, 5);
+    expect(words.map(({ country }) => country)).toEqual(["Antigua and Barbuda", "Barbados"]);
+    const value = await contriesDb.find<{ country: string }>({ $prefix: "antigua and b" }, undefined, 0, 5);
+    expect(value.map(({ country }) => country)).toEqual(["Antigua and Barbuda"]);
+});
+test('{ $prefix: "ba", continent: "Asia" }', async () => {
+    const result = await contriesDb.find<{ country: string }>({ $prefix: "ba", continent: "Asia" }, undefined, 0, 3);
+    expect(result.map(({ country }) => country).sort()).toEqual(["Bahrain", "Bangladesh"]);
+});
+test('{ $fuzzy: { value: "Angloa", maxEdits: 1 } }', async () => {
+    const result = await contriesDb.find<{ country: string }>({ $fuzzy: { value: "Angloa", maxEdits: 1 } }, undefined, 0, 20);
+    expect(result.map(({ country }) => country)).toEqual(["Angola"]);
+});
+test('{ continent: "Africa", id: { $gt: 100, $lte: 200 } } compound', async () => {
+    const query = { continent: "Africa", id: { $gt: 100, $lte: 200 } };
+    const result = await contriesDb.find(query, undefined, 0, 20);
+    const all = countries.map((country, id) => ({ ...country, id }));
+    expect(result).toEqual(new mingo.Query(query).find(all).sort({ id: 1 }).limit(20).all());
+});
+test('{ continent: "Asia" }, { id: -1 } compound', async () => {
+    const result = await contriesDb.find({ continent: "Asia" }, { id: -1 }, 0, 5);
+    const all = countries.map((country, id) => ({ ...country, id }));
+    expect(result).toEqual(new mingo.Query({ continent: "Asia" }).find(all).sort({ id: -1 }).limit(5).all());
+});
+test('compound keys of array fields and typed ranges', async () => {
+    const movies = [
+        { id: 0, genres: ['Drama', 'War'], year: 1998 },
+        { id: 1, genres: ['Comedy'], year: 2001 },
+        { id: 2, genres: ['War', 'Drama', 'Drama'], year: 1970 },
+        { id: 3, genres: 'Drama', year: '2005' },
+    ];
+    const primary = new SimpleIndice<Record<string, unknown>, number>();
+    movies.forEach((movie) => primary.add(movie, movie.id));
+    const genres = compoundIndice<number>(['genres', 'year']);
+    movies.forEach((movie) => genres.add(movie.id, movie));
+    const db = new Db(new Schema('id', new RangeLinearIndice({ indice: primary }), [
+        { indice: new RangeLinearIndice({ indice: genres.indice }), paths: genres.paths },
+    ]));
+    for (const query of [{ genres: 'Drama', year: { $gt: 1900 } }, { genres: 'War' }, { genres: 'Drama', year: { $lt: '2010' } }]) {
+        const expected = new mingo.Query(query).find(movies).all() as typeof movies;
+        const ids = (await db.find<{ id: number }>({ ...query })).map(({ id }) => id);
+        expect(ids.sort()).toEqual(expected.map(({ id }) => id));
+        expect(await db.count({ ...query })).toEqual(expected.length);
+    }
+});
 test('{ continent: "Africa" }', async () => {
     await expectEqualMingo(
         { continent: "Africa" },
@@ -219,3 +317,218 @@ test('{ continent: { $in: ["Oceania", "Asia"] } }', async () => {
 
 
 
+test('explain { not: "Africa" }', async () => {
+    const { plan, missed, postFilter, executionStats } = await contriesDb.explain({ not: "Africa" }, undefined, 0, 20);
+    expect(plan.stage).toEqual('PRIMARY_SCAN');
+    expect(missed).toBeTruthy();
+    expect(postFilter).toEqual([{ path: 'not', operator: '$eq', value: 'Africa' }]);
+    expect(executionStats.returned).toEqual(0);
+});
+test('explain { $text: "Angola", continent: "Africa" }', async () => {
+    const { plan, missed, sort, executionStats } = await contriesDb.explain({ $text: "Angola", continent: "Africa" }, { country: 1 }, 0, 20);
+    expect(missed).toBeFalsy();
+    expect(plan.stage).toEqual('INTERSECT');
+    expect(plan.children?.map(({ stage, indice, operator }) => [stage, indice, operator])).toEqual([
+        ['INDEX_SCAN', 'text', '$text'],
+        ['INDEX_SCAN', 'simple', '$eq'],
+    ]);
+    expect(sort).toEqual({ paths: ['country'], indexed: false });
+    expect(executionStats.returned).toEqual(1);
+});
+test('count { continent: "Africa" }', async () => {
+    const query = { continent: "Africa" };
+    expect(await contriesDb.count({ ...query })).toEqual(new mingo.Query(query).find(countries).count());
+    expect(await contriesDb.count({ $text: "Angola", continent: "Africa" })).toEqual(1);
+    expect(await contriesDb.count({ not: "Africa" })).toEqual(0);
+});
+test('distinct continent', async () => {
+    const continents = [...new Set(countries.map(({ continent }) => continent))].sort();
+    expect(await contriesDb.distinct('continent')).toEqual(continents);
+    expect(await contriesDb.distinct('continent', { continent: { $gte: "Oceania" } })).toEqual(continents.filter((c) => c >= "Oceania"));
+    const found = await contriesDb.find<{ continent: string }>({ $text: "Angola" });
+    expect(await contriesDb.distinct('continent', { $text: "Angola" })).toEqual([...new Set(found.map(({ continent }) => continent))].sort());
+});
+test('facets continent', async () => {
+    const counts = countries.reduce((sum, { continent }) => sum.set(continent, (sum.get(continent) || 0) + 1), new Map<string, number>());
+    const { continent } = await contriesDb.facets({}, ['continent']);
+    expect(Object.fromEntries(continent)).toEqual(Object.fromEntries(counts));
+    const { continent: text } = await contriesDb.facets({ $text: "Angola", continent: "Africa" }, ['continent']);
+    expect([...text]).toEqual([["Africa", 1]]);
+});
+test('facets { continent: "Africa" } id buckets', async () => {
+    const { id } = await contriesDb.facets({ continent: "Africa" }, [{ path: 'id', boundaries: [0, 100, 200], default: 'other' }]);
+    const ids = countries.map((country, key) => ({ ...country, id: key })).filter(({ continent }) => continent === "Africa").map(({ id }) => id);
+    expect([...id]).toEqual([
+        [0, ids.filter((i) => i < 100).length],
+        [100, ids.filter((i) => i >= 100 && i < 200).length],
+        ['other', ids.filter((i) => i >= 200).length],
+    ]);
+});
+const readPages = async (query: any, sort: any, limit: number) => {
+    const pages: unknown[][] = [];
+    let token: string | undefined;
+    do {
+        const cursor = contriesDb.findCursor({ ...query }, sort, { token, limit });
+        const page: unknown[] = [];
+        for await (const value of cursor) {
+            page.push(value);
+        }
+        pages.push(page);
+        token = cursor.token;
+    } while (token);
+    return pages;
+}
+test('findCursor { continent: "Africa" } pages', async () => {
+    const pages = await readPages({ continent: "Africa" }, undefined, 20);
+    expect(pages[0]).toHaveLength(20);
+    expect(pages.flat()).toEqual(await contriesDb.find({ continent: "Africa" }));
+});
+test('findCursor { country: { $regex: /^B/ } } pages', async () => {
+    const query = { country: { $regex: /^B/ } };
+    const pages = await readPages(query, undefined, 5);
+    expect(pages[0]).toHaveLength(5);
+    const all = countries.map((country, key) => ({ ...country, id: key }));
+    expect(pages.flat()).toEqual(new mingo.Query(query).find(all).all());
+});
+test('findCursor {}, { country: -1 } pages', async () => {
+    const pages = await readPages({}, { country: -1 }, 50);
+    expect(pages.flat()).toEqual(await contriesDb.find({}, { country: -1 }));
+});
+test('findCursor resumes across an update of the primary chunks', async () => {
+    const documents = new Array(60).fill(undefined).map((_, i) => ({ id: i, n: i }));
+    const primary = new SimpleIndice<Record<string, unknown>, number>();
+    documents.filter(({ id }) => id % 2 === 0).forEach((document) => primary.add(document, document.id));
+    const range = new RangeLinearIndice<Record<string, unknown>, number>({ indice: primary, chunkSize: 20 });
+    // the odd keys fit in the last chunk, they are appended to it without a split
+    await range.update({ add: documents.filter(({ id }) => id % 2 && id > 40).map((document) => [document, document.id]) });
+    const db = new Db(new Schema('id', range, []));
+    const query = { n: { $mod: [3, 0] } };
+    const ids: number[] = [];
+    let token: string | undefined;
+    do {
+        const cursor = db.findCursor<{ id: number }>({ ...query }, undefined, { token, limit: 10 });
+        for await (const { id } of cursor) {
+            ids.push(id);
+        }
+        token = cursor.token;
+    } while (token);
+    expect(ids).toEqual(documents.filter(({ id }) => id % 3 === 0 && (id % 2 === 0 || id > 40)).map(({ id }) => id));
+});
+test('findCursor resumes from the chunk of the token', async () => {
+    const compound = contriesDb.schema.indices.find(({ paths }) => paths)!.indice;
+    const chunks = [...compound.indices.values()];
+    const spies = chunks.map((chunk) => jest.spyOn(chunk, 'preFilter'));
+    const pages: unknown[][] = [];
+    let token: string | undefined;
+    do {
+        const chunk = token && JSON.parse(decodeURIComponent(token)).chunk;
+        const index = chunks.findIndex(({ id }) => id === chunk);
+        expect(!token || index >= 0).toBeTruthy();
+        spies.forEach((spy) => spy.mockClear());
+        const cursor = contriesDb.findCursor({ continent: "Africa" }, { id: 1 }, { token, limit: 7 });
+        const page: unknown[] = [];
+        for await (const value of cursor) {
+            page.push(value);
+        }
+        expect(spies.slice(0, Math.max(0, index)).every((spy) => !spy.mock.calls.length)).toBeTruthy();
+        pages.push(page);
+        token = cursor.token;
+    } while (token);
+    spies.forEach((spy) => spy.mockRestore());
+    expect(pages.length).toBeGreaterThan(3);
+    expect(pages.flat()).toEqual(await contriesDb.find({ continent: "Africa" }, { id: 1 }));
+});
+test('findCursor token of another query', async () => {
+    const cursor = contriesDb.findCursor({ continent: "Africa" }, undefined, { limit: 1 });
+    for await (const value of cursor) {
+        expect(value).toBeTruthy();
+    }
+    expect(() => contriesDb.findCursor({ continent: "Asia" }, undefined, { token: cursor.token })).toThrow();
+});
+test('find and findCursor with an aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const { signal } = controller;
+    await expect(contriesDb.find({ continent: "Asia" }, undefined, 0, undefined, undefined, { signal })).rejects.toBeInstanceOf(QueryAbortedError);
+    await expect(contriesDb.findCursor({ continent: "Asia" }, undefined, { signal })[Symbol.asyncIterator]().next()).rejects.toBeInstanceOf(QueryAbortedError);
+});
+test('aggregate $match, $sort, $limit, $group', async () => {
+    const all = countries.map((country, key) => ({ ...country, id: key }));
+    const pipeline = [
+        { $match: { continent: { $in: ["Africa", "Asia"] } } },
+        { $sort: { country: -1 } },
+        { $skip: 5 },
+        { $limit: 30 },
+        { $group: { _id: "$continent", count: { $sum: 1 }, first: { $first: "$country" } } },
+        { $sort: { _id: 1 } },
+    ];
+    const expected = mingo.aggregate(all, pipeline);
+    expect(await contriesDb.aggregate(JSON.parse(JSON.stringify(pipeline)))).toEqual(expected);
+});
+test('aggregate without $match', async () => {
+    const all = countries.map((country, key) => ({ ...country, id: key }));
+    const pipeline = [{ $group: { _id: "$continent", count: { $sum: 1 } } }, { $sort: { count: -1 } }, { $limit: 2 }];
+    expect(await contriesDb.aggregate(pipeline)).toEqual(mingo.aggregate(all, pipeline));
+});
+test('save and restore the whole db', async () => {
+    await saveDb(contriesDb, './persisted');
+    const schema = JSON.parse(fs.readFileSync('./persisted/schema.json').toString());
+    expect(schema.primary).toEqual({ id: 'primary', type: 'RangeLinearIndice', spread: 'SimpleIndice', path: 'id' });
+    expect(schema.indices.map(({ spread }) => spread)).toEqual(['NgramIndice', 'SimpleIndice', 'PrefixIndice', 'FuzzyIndice', 'SimpleIndice']);
+
+    const restored = await restoreDb('./persisted');
+    for (const query of [{ $text: "Africa" }, { continent: "Asia" }, { $prefix: "Bur" }, { continent: "Europe", id: { $gt: 100 } }]) {
+        expect(await restored.find({ ...query })).toEqual(await contriesDb.find({ ...query }));
+    }
+});
+test('save and restore the whole db in binary format', async () => {
+    const storage = new MemoryStorage();
+    await saveDb(contriesDb, storage, { format: 'binary' });
+    const files = [...storage.files.keys()];
+    expect(files.some((file) => file.startsWith('primary/chunk_') && file.endsWith('.json'))).toBeTruthy();
+    expect(files.some((file) => file.endsWith('.bin'))).toBeTruthy();
+
+    const restored = await Db.restore({ storage });
+    for (const query of [{ $text: "Africa" }, { continent: "Asia" }, { $prefix: "Bur" }, { continent: "Europe", id: { $gt: 100 } }]) {
+        expect(await restored.find({ ...query })).toEqual(await contriesDb.find({ ...query }));
+    }
+});
+test('save a restored db', async () => {
+    const storage = new MemoryStorage();
+    await saveDb(contriesDb, storage);
+    const restored = await Db.restore({ storage });
+    await restored.find({ continent: "Asia" });
+    const copy = new MemoryStorage();
+    await saveDb(restored, copy);
+    expect(JSON.parse(new TextDecoder().decode(await copy.read('schema.json'))))
+        .toEqual(JSON.parse(new TextDecoder().decode(await storage.read('schema.json'))));
+    const again = await Db.restore({ storage: copy });
+    for (const query of [{ $text: "Africa" }, { continent: "Asia" }, { $prefix: "Bur" }, { continent: "Europe", id: { $gt: 100 } }]) {
+        expect(await again.find({ ...query })).toEqual(await contriesDb.find({ ...query }));
+    }
+});
+test('restore the whole db in the browser', async () => {
+    (global as any).fetch = async (url: string) => {
+        const data = fs.readFileSync(url.replace('https://cdn.test', './persisted'));
+        return { ok: true, arrayBuffer: async () => data.buffer.slice(data.byteOffset, data.byteOffset + data.length) };
+    };
+    try {
+        const restored = await Db.restore({ baseUrl: 'https://cdn.test' });
+        expect(await restored.find({ continent: "Asia" }, { country: 1 })).toEqual(await contriesDb.find({ continent: "Asia" }, { country: 1 }));
+    } finally {
+        delete (global as any).fetch;
+    }
+});
+test('db imports no node built-ins', () => {
+    const builtins = ['fs', 'zlib', 'crypto', 'util'];
+    try {
+        jest.isolateModules(() => {
+            builtins.forEach((name) => jest.doMock(name, () => {
+                throw (Error(`${name} is imported`))
+            }));
+            expect(() => require("../src/db")).not.toThrow();
+        });
+    } finally {
+        builtins.forEach((name) => jest.dontMock(name));
+    }
+});
@@ -0,0 +1,68 @@
+import fs from "fs";
+import mingo from "mingo";
+import countries from "./__seed__/country-by-continent.json";
+import { ColumnIndice } from "../src/column.indice";
+import { RangeLinearIndice } from "../src/range.linear.indice";
+import { saveSharedIndices, restoreSharedIndices } from "../src/utils.ssr";
+import { Db } from "../src/db";
+import { Schema } from "../src/schema";
+import { MemoryStorage } from "../src/storage";
+
+const loadedGroups: string[] = [];
+let db: Db;
+beforeAll(async () => {
+    const indice = new ColumnIndice<Record<string, unknown>, number>({ groups: { name: ['id', 'country'] }, isLoaded: false });
+    countries.forEach((country, key) => indice.add({ ...country, id: key }, key));
+    await saveSharedIndices(new RangeLinearIndice<Record<string, unknown>, number>({ indice, id: 'column', chunkSize: 30 }));
+    const primary = await restoreSharedIndices<Record<string, unknown>, number>(
+        "column",
+        RangeLinearIndice.deserialize,
+        (options) => ColumnIndice.deserialize({
+            ...options,
+            load: (o: { group: string }) => {
+                loadedGroups.push(o.group);
+                return options.load(o);
+            }
+        })
+    );
+    db = new Db(new Schema('id', primary, []));
+});
+beforeEach(() => {
+    loadedGroups.length = 0;
+});
+
+test('chunk files are split by group', () => {
+    const files = fs.readdirSync('./column').filter((file) => file.startsWith('chunk_'));
+    expect(files.length).toBeGreaterThan(0);
+    expect(files.every((file) => /^chunk_\d+\.(name|default)\.json$/.test(file))).toBeTruthy();
+});
+
+test('projection loads only the columns it needs', async () => {
+    const result = await db.find({}, undefined, 0, 5, { country: 1 });
+    expect(result).toEqual(countries.slice(0, 5).map(({ country }) => ({ country })));
+    expect(new Set(loadedGroups)).toEqual(new Set(['name']));
+});
+
+test('projection with a filter on another group', async () => {
+    const query = { continent: "Africa" };
+    const result = await db.find({ ...query }, undefined, 0, 5, { country: 1 });
+    const all = countries.map((country, key) => ({ ...country, id: key }));
+    expect(result).toEqual(new mingo.Query(query).find(all, { country: 1 }).limit(5).all());
+    expect(new Set(loadedGroups)).toEqual(new Set(['name', 'default']));
+});
+
+test('save after a projection keeps every column', async () => {
+    const primary = await restoreSharedIndices<Record<string, unknown>, number>(
+        "column",
+        RangeLinearIndice.deserialize,
+        ColumnIndice.deserialize
+    );
+    await new Db(new Schema('id', primary, [])).find({}, undefined, 0, countries.length, { country: 1 });
+    const storage = new MemoryStorage();
+    await saveSharedIndices(primary, storage);
+    const rows = [...storage.files].filter(([path]) => path.endsWith('.default.json'))
+        .flatMap(([, data]) => JSON.parse(new TextDecoder().decode(data)).data as [number, Record<string, unknown>[]][]);
+    const documents = new Map(rows.filter(([, values]) => values.length).map(([key, [document]]) => [key, document]));
+    expect(documents.size).toEqual(countries.length);
+    expect([...documents].every(([key, document]) => document.continent === countries[key].continent)).toBeTruthy();
+});
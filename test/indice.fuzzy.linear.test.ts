@@ -0,0 +1,73 @@
+import { RangeLinearIndice } from "../src/range.linear.indice";
+import { FuzzyIndice, editDistance } from "../src/fuzzy.indice";
+import movies from "./__seed__/movies.json";
+import { saveSharedIndices, restoreSharedIndices } from "../src/utils.ssr";
+import { ISharedIndice } from "../src/interfaces";
+
+
+let indiceRestored: ISharedIndice<number, string>;
+beforeAll(async () => {
+    const indice = new FuzzyIndice<number>({ isLoaded: false });
+    movies.forEach((val, key) => indice.add(key, val));
+    const linear = new RangeLinearIndice<number, string>({ indice, id: 'fuzzy_linear' });
+    await saveSharedIndices(linear);
+    indiceRestored = await restoreSharedIndices<number, string>(
+        "fuzzy_linear",
+        RangeLinearIndice.deserialize,
+        FuzzyIndice.deserialize
+    )
+})
+
+test('edit distance', () => {
+    expect(editDistance('paradise', 'paradise')).toEqual(0);
+    expect(editDistance('pradise', 'paradise')).toEqual(1);
+    expect(editDistance('paardise', 'paradise')).toEqual(1);
+    expect(editDistance('paardise', 'paradise', false)).toEqual(2);
+    expect(editDistance('kitten', 'sitting', true, 1)).toEqual(2);
+});
+
+test('search fuzzy indices', async () => {
+    const results = await indiceRestored.find({ value: "Conqest of Pardise", maxEdits: 1 } as any);
+    expect(results.map(i => movies[i])).toEqual(["1492: Conquest of Paradise"]);
+});
+
+test('search fuzzy indices with prefix length', async () => {
+    const results = await indiceRestored.find({ value: "Baradise", maxEdits: 1, prefixLength: 1 } as any);
+    expect(results).toHaveLength(0);
+    const resMovies = (await indiceRestored.find({ value: "Pxradise", maxEdits: 1, prefixLength: 1 } as any))
+        .map(i => movies[i]);
+    expect(resMovies.length).toBeGreaterThan(0);
+    expect(resMovies.every(text => /parad/i.test(text))).toBeTruthy();
+});
+
+test('short words are matched across chunks', async () => {
+    const indice = new FuzzyIndice<number>();
+    const fillers = new Array(20).fill(undefined).map((_, i) => `filler${i}`);
+    const words = ['ax', 'zz', 'abc', 'qab', 'b', 'xyz', 'mmm', 'ab'].flatMap((word) => [word, ...fillers]);
+    words.forEach((val, key) => indice.add(key, val));
+    const linear = new RangeLinearIndice<number, string>({ indice, chunkSize: 20 });
+    expect(linear.indices.size).toBeGreaterThan(3);
+    const found = (await linear.find({ value: "ab", maxEdits: 1 } as any)).map((i) => words[i]);
+    expect(new Set(found)).toEqual(new Set(['ax', 'abc', 'qab', 'b', 'ab']));
+    const prefixed = (await linear.find({ value: "ab", maxEdits: 1, prefixLength: 1 } as any)).map((i) => words[i]);
+    expect(new Set(prefixed)).toEqual(new Set(['ax', 'abc', 'ab']));
+});
+
+test('transpositions and two edits of longer words', async () => {
+    const indice = new FuzzyIndice<number>();
+    const words = ['chad', 'iran', 'spain', ...new Array(40).fill(undefined).map((_, i) => `filler${i}`)];
+    words.forEach((val, key) => indice.add(key, val));
+    const linear = new RangeLinearIndice<number, string>({ indice, chunkSize: 10 });
+    const find = async (value: string, maxEdits: number) => (await linear.find({ value, maxEdits } as any)).map((i) => words[i]);
+    expect(await find('Cahd', 1)).toEqual(['chad']);
+    expect(await find('Iarn', 1)).toEqual(['iran']);
+    expect(await find('Sxaxn', 2)).toEqual(['spain']);
+});
+
+test('queries of more than 31 words', async () => {
+    const indice = new FuzzyIndice<number>();
+    const long = new Array(40).fill(undefined).map((_, i) => `word${String.fromCharCode(97 + i % 26)}${i}`).join(' ');
+    indice.add(0, long);
+    indice.add(1, long.split(' ').slice(1).join(' '));
+    expect(await indice.find({ value: long, maxEdits: 1 })).toEqual([0]);
+});
@@ -0,0 +1,78 @@
+import { RangeLinearIndice } from "../src/range.linear.indice";
+import { GeoIndice, decodeGeohash, encodeGeohash, geoDistance } from "../src/geo.indice";
+import { SimpleIndice } from "../src/simple.indice";
+import { MemoryStorage } from "../src/storage";
+import { Db } from "../src/db";
+import { Schema } from "../src/schema";
+import { saveDb } from "../src/utils.ssr";
+
+interface IStore {
+    id: number;
+    name: string;
+    location: { type: 'Point', coordinates: [number, number] };
+}
+const stores: IStore[] = new Array(400).fill(undefined).map((_, id) => ({
+    id,
+    name: `store ${id}`,
+    location: { type: 'Point', coordinates: [30 + (id % 20) * 0.05 + (id % 7) * 0.001, 50 + Math.floor(id / 20) * 0.05 + (id % 5) * 0.001] },
+}));
+const center: [number, number] = [30.5, 50.5];
+const coordinates = (store: IStore) => store.location.coordinates;
+
+let storesDb: Db;
+beforeAll(() => {
+    const primary = new SimpleIndice<IStore, number>();
+    stores.forEach((store) => primary.add(store, store.id));
+    const geo = new GeoIndice<number>();
+    stores.forEach((store) => geo.add(store.id, store.location));
+    storesDb = new Db(new Schema('id', new RangeLinearIndice<IStore, number>({ indice: primary, id: 'stores', chunkSize: 50 }), [
+        { indice: new RangeLinearIndice<number, string>({ indice: geo, id: 'location', chunkSize: 20 }), path: 'location' },
+    ]));
+});
+
+test('geohash', () => {
+    expect(encodeGeohash(-5.6, 42.6, 5)).toEqual('ezs42');
+    const [lng, lat] = decodeGeohash(encodeGeohash(30.52, 50.45));
+    expect(geoDistance([lng, lat], [30.52, 50.45])).toBeLessThan(1);
+});
+
+test('$near with $maxDistance is ordered by distance', async () => {
+    const query = { location: { $near: { $geometry: { type: 'Point', coordinates: center }, $maxDistance: 10000 } } };
+    const expected = stores
+        .filter((store) => geoDistance(center, coordinates(store)) <= 10000)
+        .sort((a, b) => geoDistance(center, coordinates(a)) - geoDistance(center, coordinates(b)));
+    expect(expected.length).toBeGreaterThan(5);
+    expect(await storesDb.find<IStore>({ ...query })).toEqual(expected);
+    expect(await storesDb.find<IStore>({ ...query }, undefined, 0, 3)).toEqual(expected.slice(0, 3));
+});
+
+test('$geoWithin $box, $polygon and $centerSphere', async () => {
+    const box = await storesDb.find<IStore>({ location: { $geoWithin: { $box: [[30.1005, 50.1005], [30.3005, 50.2005]] } } });
+    expect(box.map(({ id }) => id).sort((a, b) => a - b)).toEqual(stores
+        .filter((store) => {
+            const [lng, lat] = coordinates(store);
+            return lng >= 30.1005 && lng <= 30.3005 && lat >= 50.1005 && lat <= 50.2005;
+        })
+        .map(({ id }) => id));
+
+    const triangle = { $polygon: [[30, 50], [30.5, 50], [30, 50.5]] };
+    const polygon = await storesDb.find<IStore>({ location: { $geoWithin: triangle } });
+    expect(polygon.length).toBeGreaterThan(0);
+    expect(polygon.every((store) => coordinates(store)[0] - 30 + coordinates(store)[1] - 50 < 0.5001)).toBeTruthy();
+    expect(await storesDb.find<IStore>({ location: { $geoWithin: triangle }, name: 'store 21' })).toEqual([stores[21]]);
+
+    const sphere = await storesDb.find<IStore>({ location: { $geoWithin: { $centerSphere: [center, 3000 / 6378100] } } });
+    expect(sphere.map(({ id }) => id).sort((a, b) => a - b))
+        .toEqual(stores.filter((store) => geoDistance(center, coordinates(store)) <= 3000).map(({ id }) => id));
+});
+
+test('restored geo indice loads the covering chunks only', async () => {
+    const storage = new MemoryStorage();
+    await saveDb(storesDb, storage);
+    const restored = await Db.restore({ storage });
+    const query = { location: { $near: { $geometry: { type: 'Point', coordinates: center }, $maxDistance: 8000 } } };
+    const { chunks } = (await restored.explain({ ...query })).executionStats;
+    expect(chunks).toBeGreaterThan(0);
+    expect(chunks).toBeLessThan(400 / 20);
+    expect(await restored.find({ ...query })).toEqual(await storesDb.find({ ...query }));
+});
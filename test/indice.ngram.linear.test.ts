@@ -3,6 +3,7 @@ import { NgramIndice } from "../src/ngram.indice";
 import movies from "./__seed__/movies.json";
 import { saveSharedIndices, restoreSharedIndices } from "../src/utils.ssr";
 import { ISharedIndice } from "../src/interfaces";
+import { MemoryStorage } from "../src/storage";
 
 
 let indiceRestored: ISharedIndice<number, string>;
@@ -27,6 +28,26 @@ test('search indices' , async () => {
     expect(resMovies.some(text=> text.includes("Conquest"))).toBeTruthy();
     expect(results).toHaveLength(86)
 });
+test('search indices ranked by bm25 score', async () => {
+    const scores = new Map<unknown, number>();
+    const results = await indiceRestored.find("Conquest of Paradise", { scores });
+    expect(results).toHaveLength(86);
+    expect(movies[results[0]]).toEqual("1492: Conquest of Paradise");
+    expect(scores.get(results[0])).toBeGreaterThan(scores.get(results[1])!);
+});
+test('manifest keeps corpus totals only, bm25 scores survive the restore', async () => {
+    const indice = new NgramIndice<number>({ actuationLimit: 4 });
+    movies.forEach((val, key) => indice.add(key, val));
+    const storage = new MemoryStorage();
+    await saveSharedIndices(new RangeLinearIndice<number, string>({ indice, id: 'stats_linear', chunkSize: 2000 }), storage, { format: 'binary' });
+    const manifest = new TextDecoder().decode(await storage.read('stats_linear/index.json'));
+    expect(Object.keys(JSON.parse(manifest).options.spread.stats)).toEqual(['docCount', 'avgDocLength']);
+    expect(manifest.length).toBeLessThan(20000);
 
-
-
+    const restored = await restoreSharedIndices<number, string>("stats_linear", RangeLinearIndice.deserialize, NgramIndice.deserialize, storage);
+    const scores = new Map<unknown, number>();
+    const restoredScores = new Map<unknown, number>();
+    const results = await indice.find("Conquest of Paradise", { scores });
+    expect(await restored.find("Conquest of Paradise", { scores: restoredScores })).toEqual(results);
+    results.forEach((id) => expect(restoredScores.get(id)).toBeCloseTo(scores.get(id)!));
+});
@@ -0,0 +1,24 @@
+import { RangeLinearIndice } from "../src/range.linear.indice";
+import { PrefixIndice } from "../src/prefix.indice";
+import { Range } from "../src/range";
+import movies from "./__seed__/movies.json";
+
+test('words are completed and only the chunks of the query are read', async () => {
+    const prefix = new PrefixIndice<number>({ limit: 100 });
+    movies.forEach((val, key) => prefix.add(key, val));
+    const indice = new RangeLinearIndice<number, string>({ indice: prefix, chunkSize: 200 });
+    const read: Range<string>[] = [];
+    indice.indices.forEach((chunk, range) => {
+        const preFilter = chunk.preFilter.bind(chunk);
+        chunk.preFilter = (tokens, options) => {
+            read.push(range);
+            return preFilter(tokens, options);
+        };
+    });
+    const found = (await indice.find("The Go ", { operator: '$prefix' })).map((id) => movies[id]);
+    expect(found.length).toBeGreaterThan(0);
+    expect(found.every((movie) => /(^| )the go/i.test(movie))).toBeTruthy();
+    expect(found.some((movie) => !/^the go/i.test(movie))).toBeTruthy();
+    const covering = [...indice.indices.keys()].filter((range) => range.test("the go", '$prefix'));
+    expect(read).toEqual(covering);
+});
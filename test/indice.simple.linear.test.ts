@@ -0,0 +1,54 @@
+import { RangeLinearIndice } from "../src/range.linear.indice";
+import { SimpleIndice } from "../src/simple.indice";
+import { Range } from "../src/range";
+import movies from "./__seed__/movies.json";
+
+const sorted = (ids: number[]) => [...ids].sort((a, b) => a - b);
+const expected = (test: (movie: string) => boolean) => movies.map((movie, id) => test(movie) ? id : -1).filter((id) => id >= 0);
+let indice: RangeLinearIndice<number, string>;
+beforeAll(() => {
+    const simple = new SimpleIndice<number, string>();
+    movies.forEach((val, key) => simple.add(key, val));
+    indice = new RangeLinearIndice<number, string>({ indice: simple, id: 'simple_linear', chunkSize: 500 });
+});
+
+test('range operators across chunks', async () => {
+    const movie = movies[1000];
+    expect(sorted(await indice.find(movie, { operator: '$gt' }))).toEqual(expected((m) => m > movie));
+    expect(sorted(await indice.find(movie, { operator: '$gte' }))).toEqual(expected((m) => m >= movie));
+    expect(sorted(await indice.find(movie, { operator: '$lt' }))).toEqual(expected((m) => m < movie));
+    expect(sorted(await indice.find(movie, { operator: '$lte' }))).toEqual(expected((m) => m <= movie));
+    expect(sorted(await indice.find(["Avatar", "Titanic", "missing"], { operator: '$in' })))
+        .toEqual(expected((m) => m === "Avatar" || m === "Titanic"));
+    const desc = await indice.find("X", { operator: '$gte', sort: -1 });
+    expect(desc.map((id) => movies[id])).toEqual(movies.filter((m) => m >= "X").sort().reverse());
+});
+
+test('$regex by prefix', async () => {
+    const regex = async (value: RegExp) => sorted(await indice.find(value as any, { operator: '$regex' }));
+    expect(await regex(/^Conq/)).toEqual(expected((m) => m.startsWith("Conq")));
+    expect(await regex(/^The Godfathers?/)).toEqual(expected((m) => /^The Godfathers?/.test(m)));
+    expect(await regex(/^star wars/i)).toEqual(expected((m) => /^star wars/i.test(m)));
+    expect(await regex(/^Avatar|^Titanic/)).toEqual(expected((m) => /^Avatar|^Titanic/.test(m)));
+});
+
+test('range test includes chunk boundaries', () => {
+    const range = new Range('b', 'd');
+    expect(range.test('b', '$lt')).toBeFalsy();
+    expect(range.test('b', '$lte')).toBeTruthy();
+    expect(range.test('d', '$gt')).toBeFalsy();
+    expect(range.test('d', '$gte')).toBeTruthy();
+    expect(range.test('a', '$gt')).toBeTruthy();
+    expect(range.test('e', '$lt')).toBeTruthy();
+});
+
+test('added and removed keys keep the sorted keys', async () => {
+    const simple = new SimpleIndice<number, string>();
+    ['c', 'a', 'e'].forEach((val, key) => simple.add(key, val));
+    expect(await simple.find('b', { operator: '$gt' })).toEqual([0, 2]);
+    simple.add(3, 'b');
+    simple.add(4, 'd');
+    simple.remove(2, 'e');
+    expect(simple.keys).toEqual(['a', 'b', 'c', 'd']);
+    expect(await simple.find('b', { operator: '$gte' })).toEqual([3, 0, 4]);
+});
@@ -0,0 +1,62 @@
+import fs from "fs";
+import { RangeTreeIndice } from "../src/range.tree.indice";
+import { SimpleIndice } from "../src/simple.indice";
+import movies from "./__seed__/movies.json";
+import { saveSharedIndices } from "../src/utils.ssr";
+import { ISharedIndice } from "../src/interfaces";
+
+const readJson = (path: string) => JSON.parse(fs.readFileSync(path).toString());
+const loadedPages: string[] = [];
+const restore = () => RangeTreeIndice.lazy<number, string>(
+    {
+        id: 'simple_tree',
+        load: async () => readJson('./simple_tree/index.json'),
+        loadPage: async ({ id }) => {
+            loadedPages.push(id);
+            return readJson(`./simple_tree/page_${id}.json`);
+        }
+    },
+    (options) => SimpleIndice.deserialize<number, string>({
+        ...options,
+        load: async ({ id }) => readJson(`./simple_tree/chunk_${id}.json`)
+    } as any)
+);
+let indiceRestored: ISharedIndice<number, string>;
+beforeAll(async () => {
+    const indice = new SimpleIndice<number, string>({ isLoaded: false });
+    movies.forEach((val, key) => indice.add(key, val));
+    const tree = new RangeTreeIndice<number, string>({ indice, id: 'simple_tree', chunkSize: 500, pageSize: 4 });
+    expect(tree.options.height).toEqual(3);
+    await saveSharedIndices(tree);
+})
+beforeEach(() => {
+    loadedPages.length = 0;
+    indiceRestored = restore();
+});
+
+test('$eq loads one manifest page per level', async () => {
+    const results = await indiceRestored.find("1492: Conquest of Paradise");
+    expect(results.map(i => movies[i])).toEqual(["1492: Conquest of Paradise"]);
+    expect(loadedPages).toHaveLength(3);
+});
+
+test('$lt and $gte', async () => {
+    const lt = await indiceRestored.find("B", { operator: '$lt' });
+    expect(lt.length).toEqual(movies.filter(movie => movie < "B").length);
+    const gte = await restore().find("Z", { operator: '$gte' });
+    expect(gte.length).toEqual(movies.filter(movie => movie >= "Z").length);
+});
+
+test('$regex', async () => {
+    const results = await indiceRestored.find("^Conq" as any, { operator: '$regex' });
+    expect(results.map(i => movies[i]).sort()).toEqual(movies.filter(movie => movie.startsWith("Conq")).sort());
+    expect(loadedPages).toHaveLength(3);
+});
+
+test('cursor', async () => {
+    const results: number[] = [];
+    for await (const ids of indiceRestored.cursor(["Avatar", "Titanic"], { operator: '$in' })) {
+        results.push(...ids);
+    }
+    expect(results.map(i => movies[i]).sort()).toEqual(["Avatar", "Titanic"]);
+});
@@ -0,0 +1,62 @@
+import { RangeLinearIndice } from "../src/range.linear.indice";
+import { TextIndice } from "../src/text.indice";
+import { NgramIndice } from "../src/ngram.indice";
+import { Analyzer, registerAnalyzer } from "../src/analyzer";
+import movies from "./__seed__/movies.json";
+import { saveSharedIndices, restoreSharedIndices } from "../src/utils.ssr";
+import { ISharedIndice } from "../src/interfaces";
+
+
+let textRestored: ISharedIndice<number, string>;
+let ngramRestored: ISharedIndice<number, string>;
+beforeAll(async () => {
+    registerAnalyzer('movies', {
+        normalizer: 'fold',
+        tokenizer: 'word',
+        stopwords: 'english',
+        stemmer: 'english',
+        synonyms: [['heaven', 'paradise']],
+    });
+    const text = new TextIndice<number>({ analyzer: 'movies', isLoaded: false });
+    const ngram = new NgramIndice<number>({ analyzer: 'english', actuationLimit: 4, isLoaded: false });
+    movies.forEach((val, key) => {
+        text.add(key, val);
+        ngram.add(key, val);
+    });
+    await Promise.all([
+        saveSharedIndices(new RangeLinearIndice<number, string>({ indice: text, id: 'analyzer_text' })),
+        saveSharedIndices(new RangeLinearIndice<number, string>({ indice: ngram, id: 'analyzer_ngram' })),
+    ]);
+    [textRestored, ngramRestored] = await Promise.all([
+        restoreSharedIndices<number, string>(
+            "analyzer_text",
+            RangeLinearIndice.deserialize,
+            TextIndice.deserialize
+        ),
+        restoreSharedIndices<number, string>(
+            "analyzer_ngram",
+            RangeLinearIndice.deserialize,
+            NgramIndice.deserialize
+        ),
+    ]);
+})
+
+test('analyzer pipeline', () => {
+    const analyzer = new Analyzer({ stopwords: 'english', stemmer: 'english', synonyms: [['usa', 'america']] });
+    expect(analyzer.analyze("The Running of the Bulls")).toEqual(['run', 'bull']);
+    expect(analyzer.analyze("Captain USA")).toEqual(['captain', 'usa', 'america']);
+    expect(new Analyzer({ normalizer: 'fold' }).analyze("Amélie")).toEqual(['amelie']);
+});
+
+test('restored text indice tokenizes like the built one', async () => {
+    const scores = new Map<unknown, number>();
+    const results = await textRestored.find("conquests of heaven", { scores });
+    const resMovies = results.map(i => movies[i]);
+    expect(resMovies[0]).toEqual("1492: Conquest of Paradise");
+    expect(resMovies.every(text => /conquest|paradise|heaven/i.test(text))).toBeTruthy();
+});
+
+test('restored ngram indice keeps analyzer', async () => {
+    const results = await ngramRestored.find("Conquests of Paradise");
+    expect(results.map(i => movies[i])).toContain("1492: Conquest of Paradise");
+});
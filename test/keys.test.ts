@@ -0,0 +1,58 @@
+import { RangeLinearIndice } from "../src/range.linear.indice";
+import { SimpleIndice } from "../src/simple.indice";
+import { MemoryStorage } from "../src/storage";
+import { Range } from "../src/range";
+import { compareKeys, parseKeys, stringifyKeys } from "../src/keys";
+import { saveSharedIndices } from "../src/utils.ssr";
+import { restoreSharedIndices } from "../src/utils.browser";
+
+const start = Date.UTC(2020, 0, 1);
+const day = 24 * 60 * 60 * 1000;
+const dates = new Array(300).fill(undefined).map((_, id) => new Date(start + (id % 100) * day));
+
+test('codec keeps typed keys', () => {
+    const keys = [new Date(start), BigInt('9007199254740993'), 10, '10', Infinity, -Infinity];
+    const restored = parseKeys<unknown[]>(stringifyKeys(keys));
+    expect(restored).toEqual(keys);
+    expect(restored[1]).toEqual(BigInt('9007199254740993'));
+    expect(Number.isNaN(parseKeys(stringifyKeys([NaN]))[0])).toBeTruthy();
+    const stored = { doc: { $date: 123 }, escaped: { $$bigint: '1' }, query: { $date: 1, $gt: 2 }, created: new Date(start) };
+    expect(parseKeys(stringifyKeys(stored))).toEqual(stored);
+    expect([new Date(start + day), '2', 10, new Date(start), '10', 9].sort(compareKeys))
+        .toEqual([9, 10, '10', '2', new Date(start), new Date(start + day)]);
+    expect(Range.fromKeys(dates).has(new Date(start + 50 * day))).toBeTruthy();
+    expect(Range.fromKeys(dates).has(new Date(start - day))).toBeFalsy();
+});
+
+test('date range queries match before and after restore', async () => {
+    const indice = new SimpleIndice<number, Date>({ isLoaded: false });
+    dates.forEach((date, id) => indice.add(id, date));
+    const storage = new MemoryStorage();
+    await saveSharedIndices(new RangeLinearIndice<number, Date>({ indice, id: 'dates', chunkSize: 30 }), storage);
+    const loaded = new SimpleIndice<number, Date>();
+    dates.forEach((date, id) => loaded.add(id, date));
+    const memory = new RangeLinearIndice<number, Date>({ indice: loaded, id: 'dates', chunkSize: 30 });
+    const restored = await restoreSharedIndices<number, Date>({
+        id: 'dates',
+        storage,
+        deserializeShared: RangeLinearIndice.lazy,
+        deserialize: SimpleIndice.deserialize as any,
+    });
+    const sorted = (ids: number[]) => [...ids].sort((a, b) => a - b);
+    const from = new Date(start + 42 * day);
+    const to = new Date(start + 60.5 * day);
+    const queries: [Date | { $gte: Date, $lt: Date }, string, (date: Date) => boolean][] = [
+        [from, '$eq', (date) => date.getTime() === from.getTime()],
+        [from, '$lt', (date) => date < from],
+        [from, '$lte', (date) => date <= from],
+        [from, '$gt', (date) => date > from],
+        [to, '$gte', (date) => date >= to],
+        [{ $gte: from, $lt: to }, '$range', (date) => date >= from && date < to],
+    ];
+    for (const [value, operator, test] of queries) {
+        const expected = dates.map((date, id) => test(date) ? id : -1).filter((id) => id >= 0);
+        expect(expected.length).toBeGreaterThan(0);
+        expect(sorted(await memory.find(value as Date, { operator }))).toEqual(expected);
+        expect(sorted(await restored.find(value as Date, { operator }))).toEqual(expected);
+    }
+});
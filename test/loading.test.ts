@@ -0,0 +1,64 @@
+import movies from "./__seed__/movies.json";
+import { RangeTreeIndice } from "../src/range.tree.indice";
+import { SimpleIndice } from "../src/simple.indice";
+import { MemoryStorage } from "../src/storage";
+import { chunkLimiter } from "../src/limiter";
+import { saveSharedIndices } from "../src/utils.ssr";
+import { restoreSharedIndices } from "../src/utils.browser";
+
+class SlowStorage extends MemoryStorage {
+    public reads: string[] = [];
+    public active = 0;
+    public maxActive = 0;
+    async read(path: string): Promise<Uint8Array> {
+        this.reads.push(path);
+        this.active++;
+        this.maxActive = Math.max(this.maxActive, this.active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        this.active--;
+        return super.read(path);
+    }
+}
+const storage = new SlowStorage();
+const restore = () => restoreSharedIndices<number, string>({
+    id: 'movies',
+    storage,
+    deserializeShared: RangeTreeIndice.lazy,
+    deserialize: SimpleIndice.deserialize as any,
+});
+const chunkReads = () => storage.reads.filter((path) => path.includes('chunk_'));
+beforeAll(async () => {
+    const indice = new SimpleIndice<number, string>({ isLoaded: false });
+    movies.forEach((val, key) => indice.add(key, val));
+    await saveSharedIndices(new RangeTreeIndice<number, string>({ indice, id: 'movies', chunkSize: 500, pageSize: 4 }), storage);
+});
+beforeEach(() => {
+    storage.reads = [];
+    storage.maxActive = 0;
+    chunkLimiter.configure({ concurrency: 6 });
+});
+
+test('concurrent queries fetch a chunk once', async () => {
+    const indice = await restore();
+    const results = await Promise.all([1, 2, 3].map(() => indice.find("Titanic")));
+    expect(results).toEqual([1, 2, 3].map(() => [movies.indexOf("Titanic")]));
+    expect(storage.reads.filter((path) => path === 'movies/index.json')).toHaveLength(1);
+    expect(chunkReads()).toHaveLength(1);
+});
+
+test('chunk fetches are limited', async () => {
+    chunkLimiter.configure({ concurrency: 2 });
+    const results = await (await restore()).find("B", { operator: '$lt' });
+    expect(results.length).toEqual(movies.filter(movie => movie < "B").length);
+    expect(chunkReads().length).toBeGreaterThan(2);
+    expect(storage.maxActive).toBeLessThanOrEqual(2);
+});
+
+test('prefetch warms the chunks of a query', async () => {
+    const indice = await restore();
+    await indice.prefetch!(["Avatar", "Titanic"], { operator: '$in' });
+    const prefetched = chunkReads().length;
+    expect(prefetched).toEqual(2);
+    expect((await indice.find(["Avatar", "Titanic"], { operator: '$in' })).length).toEqual(2);
+    expect(chunkReads().length).toEqual(prefetched);
+});
@@ -0,0 +1,45 @@
+import zlib from "zlib";
+import movies from "./__seed__/movies.json";
+import { RangeTreeIndice } from "../src/range.tree.indice";
+import { SimpleIndice } from "../src/simple.indice";
+import { MemoryStorage, TarStorage } from "../src/storage";
+import { saveSharedIndices, restoreSharedIndices } from "../src/utils.ssr";
+import { restoreSharedIndices as restoreSharedIndicesBrowser } from "../src/utils.browser";
+
+const memory = new MemoryStorage();
+beforeAll(async () => {
+    const indice = new SimpleIndice<number, string>({ isLoaded: false });
+    movies.forEach((val, key) => indice.add(key, val));
+    const tree = new RangeTreeIndice<number, string>({ indice, id: 'movies', chunkSize: 500, pageSize: 4 });
+    await saveSharedIndices(tree, memory, { encodings: ['gzip'], json: false });
+});
+
+test('memory storage lists a directory', async () => {
+    const files = await memory.list('movies');
+    expect(files).toContain('index.json.gz');
+    expect(files.every((file) => file.endsWith('.json.gz'))).toBeTruthy();
+    expect(await memory.list('')).toEqual([]);
+    await expect(memory.read('movies/index.json')).rejects.toThrow();
+});
+
+test('restore from memory storage', async () => {
+    const restored = await restoreSharedIndices<number, string>("movies", RangeTreeIndice.deserialize, SimpleIndice.deserialize, memory);
+    expect((await restored.find("1492: Conquest of Paradise")).map(i => movies[i])).toEqual(["1492: Conquest of Paradise"]);
+});
+
+test('lazy restore from a gzipped tarball', async () => {
+    const tar = new TarStorage();
+    for (const file of await memory.list('movies')) {
+        await tar.write(`movies/${file}`, await memory.read(`movies/${file}`));
+    }
+    const bundle = new TarStorage(zlib.gzipSync(tar.pack()));
+    expect((await bundle.list('movies')).sort()).toEqual((await memory.list('movies')).sort());
+    const restored = await restoreSharedIndicesBrowser<number, string>({
+        id: 'movies',
+        storage: bundle,
+        deserializeShared: RangeTreeIndice.lazy,
+        deserialize: SimpleIndice.deserialize as any,
+    });
+    const results = await restored.find("Titanic", { operator: '$gte' });
+    expect(results.length).toEqual(movies.filter(movie => movie >= "Titanic").length);
+});
@@ -0,0 +1,49 @@
+import fs from "fs";
+import movies from "./__seed__/movies.json";
+import { RangeTreeIndice } from "../src/range.tree.indice";
+import { SimpleIndice } from "../src/simple.indice";
+import { saveSharedIndices, restoreSharedIndices } from "../src/utils.ssr";
+import { restoreSharedIndices as restoreSharedIndicesBrowser } from "../src/utils.browser";
+
+const baseUrl = 'https://cdn.test';
+const requested: string[] = [];
+beforeAll(async () => {
+    const indice = new SimpleIndice<number, string>({ isLoaded: false });
+    movies.forEach((val, key) => indice.add(key, val));
+    const tree = new RangeTreeIndice<number, string>({ indice, id: 'hashed', chunkSize: 500, pageSize: 4 });
+    await saveSharedIndices(tree, '.', { hashed: true, encodings: ['gzip'], json: false });
+    (global as any).fetch = async (url: string) => {
+        requested.push(url);
+        const data = fs.readFileSync(url.replace(baseUrl, '.'));
+        return { ok: true, arrayBuffer: async () => data.buffer.slice(data.byteOffset, data.byteOffset + data.length) };
+    };
+});
+afterAll(() => {
+    delete (global as any).fetch;
+});
+
+test('files are named by content hash behind a root pointer', () => {
+    const files = fs.readdirSync('./hashed');
+    const pointer = JSON.parse(fs.readFileSync('./hashed/index.json').toString());
+    expect(files).toContain(`${pointer.manifest}.gz`);
+    expect(pointer.manifest).toMatch(/^index\.[0-9a-f]{16}\.json$/);
+    expect(files.filter((file) => file !== 'index.json').every((file) => /\.[0-9a-f]{16}\.json\.gz$/.test(file))).toBeTruthy();
+});
+
+test('ssr restore resolves chunks through the manifest', async () => {
+    const restored = await restoreSharedIndices<number, string>("hashed", RangeTreeIndice.deserialize, SimpleIndice.deserialize);
+    const results = await restored.find("1492: Conquest of Paradise");
+    expect(results.map(i => movies[i])).toEqual(["1492: Conquest of Paradise"]);
+});
+
+test('browser restore resolves chunks through the manifest', async () => {
+    const restored = await restoreSharedIndicesBrowser<number, string>({
+        id: 'hashed',
+        baseUrl,
+        deserializeShared: RangeTreeIndice.lazy,
+        deserialize: SimpleIndice.deserialize as any,
+    });
+    const results = await restored.find("1492: Conquest of Paradise");
+    expect(results.map(i => movies[i])).toEqual(["1492: Conquest of Paradise"]);
+    expect(requested.slice(1).every((url) => /\.[0-9a-f]{16}\.json\.gz$/.test(url))).toBeTruthy();
+});
@@ -0,0 +1,123 @@
+import fs from "fs";
+import movies from "./__seed__/movies.json";
+import { RangeLinearIndice } from "../src/range.linear.indice";
+import { SimpleIndice } from "../src/simple.indice";
+import { NgramIndice } from "../src/ngram.indice";
+import { TextIndice } from "../src/text.indice";
+import { PrefixIndice } from "../src/prefix.indice";
+import { FuzzyIndice } from "../src/fuzzy.indice";
+import { GeoIndice, IGeoPoint } from "../src/geo.indice";
+import { saveSharedIndices, restoreSharedIndices, updateSharedIndices } from "../src/utils.ssr";
+
+interface IMovie {
+    id: number;
+    title: string;
+}
+const map = ({ id, title }: IMovie): [number, string] => [id, title];
+const restore = () => restoreSharedIndices<number, string>("incremental", RangeLinearIndice.deserialize, SimpleIndice.deserialize);
+
+beforeAll(async () => {
+    fs.rmSync('./incremental', { recursive: true, force: true });
+    const indice = new SimpleIndice<number, string>({ isLoaded: false });
+    movies.forEach((val, key) => indice.add(key, val));
+    const range = new RangeLinearIndice<number, string>({ indice, id: 'incremental', chunkSize: 500 });
+    await saveSharedIndices(range, '.', { hashed: true, encodings: ['gzip'] });
+});
+
+test('update rewrites only the changed chunks', async () => {
+    const before = fs.readdirSync('./incremental');
+    const result = await updateSharedIndices<number, string, IMovie>(
+        "incremental",
+        RangeLinearIndice.deserialize,
+        SimpleIndice.deserialize,
+        {
+            added: [{ id: movies.length, title: "1492: Conquest of Paradise II" }],
+            changed: [[{ id: 1, title: movies[1] }, { id: 1, title: "$1,000,000 a Touchdown" }]],
+            removed: [{ id: 2, title: movies[2] }],
+        },
+        map
+    );
+    const after = fs.readdirSync('./incremental');
+    const chunks = (files: string[]) => files.filter((file) => file.startsWith('chunk_'));
+    expect(chunks(result.added).length).toEqual(chunks(result.removed).length);
+    expect(chunks(result.added).length).toBeLessThanOrEqual(4);
+    expect(chunks(after).length).toEqual(chunks(before).length);
+    expect(result.added).toContain('index.json');
+    expect(after.filter((file) => !before.includes(file)).sort()).toEqual(result.added.filter((file) => file !== 'index.json').sort());
+    expect(before.filter((file) => !after.includes(file)).sort()).toEqual([...result.removed].sort());
+
+    const restored = await restore();
+    expect(await restored.find("1492: Conquest of Paradise II")).toEqual([movies.length]);
+    expect(await restored.find("$1,000,000 a Touchdown")).toEqual([1]);
+    expect(await restored.find(movies[1])).toEqual([]);
+    expect(await restored.find(movies[2])).toEqual([]);
+    expect(await restored.find(movies[3])).toEqual([3]);
+});
+
+test('update splits chunks above chunk size and merges small ones', async () => {
+    const indice = new SimpleIndice<number, string>();
+    movies.slice(0, 1000).forEach((val, key) => indice.add(key, val));
+    const range = new RangeLinearIndice<number, string>({ indice, chunkSize: 500 });
+    const size = () => [...range.indices.values()].map((chunk) => (chunk.serializeData() as [string, number[]][])
+        .reduce((sum, [, ids]) => sum + ids.length, 0));
+    const first = [...range.indices.values()][0];
+    const count = range.indices.size;
+
+    const split = await range.update({ add: movies.slice(1000, 1400).map((val, key) => [1000 + key, `${movies[0]} ${val}`]) });
+    expect(split.removed).toEqual([first]);
+    expect(split.added.length).toEqual(2);
+    expect(range.indices.size).toEqual(count + 1);
+    expect(size().every((value) => value <= 500)).toBeTruthy();
+    expect(await range.find(`${movies[0]} ${movies[1000]}`)).toEqual([1000]);
+
+    const last = [...range.indices.values()][range.indices.size - 1];
+    const merged = await range.update({ remove: movies.slice(600, 1000).map((val, key) => [600 + key, val]) });
+    expect(merged.removed).toContain(last);
+    expect(range.indices.size).toEqual(count);
+    expect(await range.find(movies[500])).toEqual([500]);
+    expect(await range.find(movies[700])).toEqual([]);
+});
+
+test('update ngram, text, prefix and geo chunks', async () => {
+    const titles = movies.slice(0, 300);
+    const text = async (indice: NgramIndice<number>) => {
+        titles.forEach((val, key) => indice.add(key, val));
+        const range = new RangeLinearIndice<number, string>({ indice, chunkSize: 500 });
+        await range.update({
+            add: [[1, "Zyzzyva running quokkas"]],
+            remove: [[1, titles[1]], [2, titles[2]]],
+        });
+        const scores = new Map<unknown, number>();
+        expect(await range.find("Zyzzyva running quokkas", { scores })).toEqual([1]);
+        expect(scores.get(1)).toBeGreaterThan(0);
+        expect(await range.find(titles[2])).not.toContain(2);
+        expect(await range.find(titles[3])).toContain(3);
+    };
+    await text(new NgramIndice<number>({ actuationLimitAuto: true }));
+    await text(new TextIndice<number>());
+
+    const prefix = new PrefixIndice<number>();
+    titles.forEach((val, key) => prefix.add(key, val));
+    const prefixRange = new RangeLinearIndice<number, string>({ indice: prefix, chunkSize: 50 });
+    await prefixRange.update({ add: [[1, "Zyzzyva"]], remove: [[1, titles[1]]] });
+    expect(await prefixRange.find("zyz")).toEqual([1]);
+    expect(await prefixRange.find(titles[1])).not.toContain(1);
+    await prefixRange.update({ add: [[2, { value: "Zyzzyvas", weight: 10 } as unknown as string]], remove: [[2, titles[2]]] });
+    expect(await prefixRange.find("zyz")).toEqual([2, 1]);
+
+    const points = titles.map((_, id): IGeoPoint => ({ type: 'Point', coordinates: [30 + (id % 20) * 0.05, 50 + Math.floor(id / 20) * 0.05] }));
+    const geo = new GeoIndice<number>();
+    points.forEach((point, key) => geo.add(key, point));
+    const geoRange = new RangeLinearIndice<number, string>({ indice: geo, chunkSize: 20 });
+    const moved: IGeoPoint = { type: 'Point', coordinates: [10, 10] };
+    await geoRange.update({ add: [[0, moved as unknown as string]], remove: [[0, points[0] as unknown as string]] });
+    expect(await geoRange.find(geo.tokenizr(moved)[0])).toEqual([0]);
+    expect(await geoRange.find(geo.tokenizr(points[0])[0])).toEqual([]);
+});
+
+test('update rejects fuzzy chunks', async () => {
+    const indice = new FuzzyIndice<number>();
+    movies.slice(0, 100).forEach((val, key) => indice.add(key, val));
+    const range = new RangeLinearIndice<number, string>({ indice, chunkSize: 50 });
+    await expect(range.update({ remove: [[0, movies[0]]] })).rejects.toThrow("update doesn't implemented");
+});